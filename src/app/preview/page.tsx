@@ -3,25 +3,185 @@
 
 export const dynamic = 'force-dynamic'; // Ensures page is not prerendered
 
+import type { MouseEvent as ReactMouseEvent } from 'react';
 import Image from 'next/image';
-import { useEffect, useState, useRef, useCallback, Suspense } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Download, RefreshCw, XCircle, Loader2, Camera as CameraIcon, VideoOff, SwitchCamera } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Download, RefreshCw, XCircle, Loader2, Camera as CameraIcon, VideoOff, SwitchCamera, Crop, Check, Timer, Volume2, VolumeX, Square, FileArchive, Film, Video, MonitorUp, ImagePlus, LayoutGrid, BarChart3, ScanLine, FileSignature, SlidersHorizontal, Layers, PictureInPicture2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useCountdown } from '@/hooks/use-countdown';
+import { useIntervalCapture, type IntervalStopCondition } from '@/hooks/use-interval-capture';
+import { useClipRecorder, type RecordedClip } from '@/hooks/use-clip-recorder';
+import { useFilenamePrefix } from '@/hooks/use-filename-prefix';
+import { useCameraDevices } from '@/hooks/use-camera-devices';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useFrameSampler } from '@/hooks/use-frame-sampler';
+import { useMotionCapture } from '@/hooks/use-motion-capture';
+import { useImageImport } from '@/hooks/use-image-import';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { usePipStream } from '@/hooks/use-pip-stream';
+import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { generateImageName, GenerateImageNameInput } from '@/ai/flows/generate-image-name-flow';
+import FramingMask from '@/components/pixsnap/framing-mask';
+import { DEFAULT_OVERLAY_SETTINGS, parseSettingsFromSearchParams, type OverlaySettings, type PixsnapSettings } from '@/lib/pixsnap/settings';
+import { computeFitRects, drawFitted, isUpscaled } from '@/lib/pixsnap/fit';
+import { DEFAULT_GIF_OPTIONS, dataUrlToBlob, describeEncodeResult, encodeCanvas, encodeGifFramesAsync, type GifEncodeResult } from '@/lib/pixsnap/encode';
+import { DEFAULT_CAPTURE_EDIT, getCenteredCrop, getEditBounds, renderEdit, type CaptureEdit, type Rect } from '@/lib/pixsnap/transform';
+import CaptureEditor from '@/components/pixsnap/capture-editor';
+import Filmstrip from '@/components/pixsnap/filmstrip';
+import { copyCanvas, createEncodedFrame, createSessionFrame, delay, findSharpestFrame, getDownscaleFactor, grabVideoFrame, renderFittedFrame, type SessionFrame } from '@/lib/pixsnap/frames';
+import { measureSharpness } from '@/lib/pixsnap/sharpness';
+import { downloadBlob, triggerDownload } from '@/lib/pixsnap/download';
+import { createZip, type ZipEntry } from '@/lib/pixsnap/zip';
+import { getSupportedWebmMimeType, renderTimelapseWebm } from '@/lib/pixsnap/timelapse';
+import { formatDuration, getSupportedVideoFormats, type VideoFormatOption } from '@/lib/pixsnap/video';
+import { GIF_DITHERING_KEYS_ORDERED, GIF_DITHERING_OPTIONS, toBoomerang, type GifDithering, type GifEncodeOptions } from '@/lib/pixsnap/gif';
+import { playBeep } from '@/lib/pixsnap/beep';
+import CountdownOverlay from '@/components/pixsnap/countdown-overlay';
+import DropOverlay from '@/components/pixsnap/drop-overlay';
+import CameraControls from '@/components/pixsnap/camera-controls';
+import OverlayOptions from '@/components/pixsnap/overlay-options';
+import ViewfinderOverlays from '@/components/pixsnap/viewfinder-overlays';
+import HistogramPanel from '@/components/pixsnap/histogram-panel';
+import MotionRegionSelector from '@/components/pixsnap/motion-region-selector';
+import DocumentCorners from '@/components/pixsnap/document-corners';
+import ScanResults from '@/components/pixsnap/scan-results';
+import AdjustmentEditor from '@/components/pixsnap/adjustment-editor';
+import ChromaKeyOptionsPanel from '@/components/pixsnap/chroma-key-options';
+import PipInset from '@/components/pixsnap/pip-inset';
+import PipOptions from '@/components/pixsnap/pip-options';
+import {
+  DEFAULT_DOCUMENT_QUAD,
+  DOCUMENT_CLEANUPS,
+  DOCUMENT_CLEANUP_KEYS_ORDERED,
+  PAGE_SIZES,
+  PAGE_SIZE_KEYS_ORDERED,
+  applyDocumentCleanup,
+  detectDocumentQuad,
+  getDocumentOutputSize,
+  warpDocument,
+  type DocumentCleanup,
+  type PageSize,
+  type Quad,
+} from '@/lib/pixsnap/document';
+import { MAX_MOTION_SENSITIVITY, MIN_MOTION_SENSITIVITY } from '@/lib/pixsnap/motion';
+import { computeHistogram, drawZebraStripes, type Histogram } from '@/lib/pixsnap/exposure';
+import { PEAKING_COLORS, PEAKING_COLOR_KEYS_ORDERED, drawFocusPeaking, type PeakingColor } from '@/lib/pixsnap/peaking';
+import {
+  DEFAULT_STILL_CAPTURE_OPTIONS,
+  FILL_LIGHT_MODES,
+  STILL_CAPTURE_METHODS,
+  STILL_RESOLUTIONS,
+  STILL_RESOLUTION_KEYS_ORDERED,
+  getStillCaptureSupport,
+  matchPreviewFraming,
+  takeStillPhoto,
+  type FillLightMode,
+  type StillCaptureMethod,
+  type StillCaptureOptions,
+  type StillCaptureSupport,
+  type StillResolution,
+} from '@/lib/pixsnap/still-capture';
+import { IMPORT_ACCEPTED_TYPES, loadImageFile } from '@/lib/pixsnap/import';
+import { createFrameScanner, getScanImageData, toFilenamePrefix, type ScanResult } from '@/lib/pixsnap/scan';
+import { drawWatermark, loadWatermarkLogo } from '@/lib/pixsnap/watermark';
+import {
+  DEFAULT_CHROMA_KEY_OPTIONS,
+  applyChromaKey,
+  renderChromaKeyPreview,
+  sampleVideoColor,
+  supportsTransparency,
+  type ChromaKeyOptions,
+} from '@/lib/pixsnap/chroma-key';
+import {
+  COLLAGE_LAYOUTS,
+  COLLAGE_LAYOUT_KEYS_ORDERED,
+  DEFAULT_COLLAGE_OPTIONS,
+  MAX_COLLAGE_GUTTER_PERCENT,
+  renderCollage,
+  type CollageLayout,
+  type CollageOptions,
+} from '@/lib/pixsnap/collage';
+import { DEFAULT_PIP_LAYOUT, drawPipInset, getPipStreamSize, type PipLayout, type PipSource } from '@/lib/pixsnap/pip';
+import { captionUsesLocation, drawCaptionBar, formatCaption, type CaptionContext } from '@/lib/pixsnap/caption';
+import { DEFAULT_IMAGE_ADJUSTMENTS, applyAdjustments, isNeutralAdjustments, type ImageAdjustments } from '@/lib/pixsnap/adjustments';
+import {
+  FACING_MODES,
+  FACING_MODE_KEYS_ORDERED,
+  getCameraConstraint,
+  getCameraLabel,
+  loadLastCameraSelection,
+  saveLastCameraId,
+  type CameraSelection,
+} from '@/lib/pixsnap/cameras';
 
-type OutputFormat = 'png' | 'jpeg' | 'webp';
+type VideoSource = 'camera' | 'screen';
 
-interface PixsnapSettings {
-  aspectRatioKey: string;
-  width: number;
-  height: number;
-  format: OutputFormat;
-  targetFileSizeKB: number;
-}
+type CaptureMode = 'photo' | 'document' | 'scan' | 'booth' | 'burst' | 'interval' | 'motion' | 'video' | 'gif';
+
+const CAPTURE_MODES: Record<CaptureMode, string> = {
+  photo: 'Photo',
+  document: 'Document',
+  scan: 'Scan',
+  booth: 'Booth',
+  burst: 'Burst',
+  interval: 'Interval',
+  motion: 'Motion',
+  video: 'Video',
+  gif: 'GIF',
+};
+const CAPTURE_MODE_KEYS_ORDERED: CaptureMode[] = ['photo', 'document', 'scan', 'booth', 'burst', 'interval', 'motion', 'video', 'gif'];
+// With GIF output only the modes that never encode a still are offered.
+const GIF_FORMAT_CAPTURE_MODES: CaptureMode[] = ['scan', 'video', 'gif'];
+
+const GIF_COLOR_OPTIONS = [256, 128, 64, 32, 16];
+const MAX_GIF_FRAMES = 60;
+// Frames are buffered as raw RGBA until the encode, so cap their size: 60 frames at 640px is ~55 MB, at 1080p ~500 MB.
+const MAX_GIF_DIMENSION = 640;
+const MAX_SCAN_RESULTS = 5;
+// Full-resolution scans read dense codes the live sampler misses; beyond this ZXing only gets slower.
+const SCAN_STILL_MAX_DIMENSION = 3000;
+const MAX_BOOTH_COUNTDOWN_SECONDS = 10;
+
+type TimerOption = 'off' | '3' | '5' | '10' | 'custom';
+
+const TIMER_OPTIONS: Record<TimerOption, string> = {
+  off: 'No Timer',
+  '3': '3s',
+  '5': '5s',
+  '10': '10s',
+  custom: 'Custom',
+};
+const TIMER_OPTION_KEYS_ORDERED: TimerOption[] = ['off', '3', '5', '10', 'custom'];
+const MAX_TIMER_SECONDS = 120;
+
+const SHARPNESS_ANALYSIS_MAX_DIMENSION = 640;
+const MAX_BURST_FRAMES = 30;
 
 function PreviewCapturePageContent() {
   const { toast } = useToast();
@@ -30,9 +190,26 @@ function PreviewCapturePageContent() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   const [settings, setSettings] = useState<PixsnapSettings | null>(null);
+  // Kept apart from `settings` so toggling a guide doesn't restart the camera.
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(DEFAULT_OVERLAY_SETTINGS);
+  const [isHistogramEnabled, setIsHistogramEnabled] = useState<boolean>(false);
+  const [isZebraEnabled, setIsZebraEnabled] = useState<boolean>(false);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const zebraCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [isPeakingEnabled, setIsPeakingEnabled] = useState<boolean>(false);
+  const [peakingColor, setPeakingColor] = useState<PeakingColor>('red');
+  const peakingCanvasRef = useRef<HTMLCanvasElement>(null);
+  const chromaCanvasRef = useRef<HTMLCanvasElement>(null);
   const [imageDataUrl, setImageDataUrl] = useState<string | null>(null);
+  // Usually the settings size; document pages keep their own proportions.
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
   
   const [stream, setStream] = useState<MediaStream | null>(null);
+  // Handlers that stop the camera after an await must see the stream that is live by then, not the one they started with.
+  const streamRef = useRef<MediaStream | null>(null);
+  useEffect(() => {
+    streamRef.current = stream;
+  }, [stream]);
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
   const [webcamError, setWebcamError] = useState<string | null>(null);
   
@@ -40,37 +217,220 @@ function PreviewCapturePageContent() {
   const [isLoadingCamera, setIsLoadingCamera] = useState<boolean>(true); 
   const [isCapturingPhoto, setIsCapturingPhoto] = useState<boolean>(false);
   const [isPreviewing, setIsPreviewing] = useState<boolean>(false);
-  const [isGeneratingName, setIsGeneratingName] = useState<boolean>(false);
+  const [captureProgress, setCaptureProgress] = useState<string | null>(null);
+  /** Progress of a capture that needs the live view (booth shots, GIF frames); shown as a badge instead of the busy overlay. */
+  const [liveCaptureProgress, setLiveCaptureProgress] = useState<string | null>(null);
+
+  const cameraDevices = useCameraDevices();
+  const availableCameras = cameraDevices.cameras;
+  const [cameraSelection, setCameraSelection] = useState<CameraSelection>(
+    () => (typeof window === 'undefined' ? { kind: 'default' } : loadLastCameraSelection())
+  );
+  const [activeCameraId, setActiveCameraId] = useState<string | null>(null);
+  const [stillSupport, setStillSupport] = useState<StillCaptureSupport | null>(null);
+  const [stillOptions, setStillOptions] = useState<StillCaptureOptions>(DEFAULT_STILL_CAPTURE_OPTIONS);
+  const [lastCaptureInfo, setLastCaptureInfo] = useState<{ method: StillCaptureMethod; width: number; height: number } | null>(null);
+  const isMobile = useIsMobile();
+  const [streamResolution, setStreamResolution] = useState<{ width: number; height: number } | null>(null);
+  const [videoSource, setVideoSource] = useState<VideoSource>('camera');
+  const [canCaptureScreen, setCanCaptureScreen] = useState<boolean>(false);
+  // Picked in the click handler and handed to initializeCamera, which runs too late to ask for it itself.
+  const pendingScreenStreamRef = useRef<MediaStream | null>(null);
+
+  const sourceFrameRef = useRef<HTMLCanvasElement | null>(null);
+  const [captureEdit, setCaptureEdit] = useState<CaptureEdit | null>(null);
+  const [activeEditor, setActiveEditor] = useState<'crop' | 'adjust' | null>(null);
+  const isEditing = activeEditor !== null;
+  // The encoded output before adjustments, so they can be changed and re-applied without recapturing.
+  const outputBaseRef = useRef<HTMLCanvasElement | null>(null);
+  const [imageAdjustments, setImageAdjustments] = useState<ImageAdjustments>(DEFAULT_IMAGE_ADJUSTMENTS);
+  const [isApplyingEdit, setIsApplyingEdit] = useState<boolean>(false);
+
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('photo');
+  const [burstCount, setBurstCount] = useState<number>(8);
+  const [burstIntervalMs, setBurstIntervalMs] = useState<number>(150);
+  const [burstFrames, setBurstFrames] = useState<SessionFrame[]>([]);
+  const [selectedBurstIds, setSelectedBurstIds] = useState<string[]>([]);
+  const [focusedBurstId, setFocusedBurstId] = useState<string | null>(null);
+
+  const [timerOption, setTimerOption] = useState<TimerOption>('off');
+  const [customTimerSeconds, setCustomTimerSeconds] = useState<number>(15);
+  const [isTimerBeepEnabled, setIsTimerBeepEnabled] = useState<boolean>(true);
+  const countdown = useCountdown();
+
+  const [intervalSeconds, setIntervalSeconds] = useState<number>(5);
+  const [intervalStopCondition, setIntervalStopCondition] = useState<IntervalStopCondition>('count');
+  const [intervalStopValue, setIntervalStopValue] = useState<number>(60);
+  const [excludedIntervalIds, setExcludedIntervalIds] = useState<string[]>([]);
+  const [focusedIntervalId, setFocusedIntervalId] = useState<string | null>(null);
+  const [focusedIntervalUrl, setFocusedIntervalUrl] = useState<string | null>(null);
+  const [timelapseFps, setTimelapseFps] = useState<number>(10);
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
+  const [videoFormats, setVideoFormats] = useState<VideoFormatOption[]>([]);
+  const [videoFormatId, setVideoFormatId] = useState<string>('');
+  const [maxClipSeconds, setMaxClipSeconds] = useState<number>(0);
+  const [maxClipSizeMB, setMaxClipSizeMB] = useState<number>(0);
+  const [recordedClip, setRecordedClip] = useState<(RecordedClip & { url: string }) | null>(null);
+  const clipRecorder = useClipRecorder();
+  const filenamePrefix = useFilenamePrefix();
+  const isGeneratingName = filenamePrefix.isGeneratingName;
+
+  const [gifFrameCount, setGifFrameCount] = useState<number>(12);
+  const [gifOptions, setGifOptions] = useState<GifEncodeOptions>(DEFAULT_GIF_OPTIONS);
+  const [isGifBoomerang, setIsGifBoomerang] = useState<boolean>(false);
+  const [recordedGif, setRecordedGif] = useState<(GifEncodeResult & { url: string }) | null>(null);
+
+  const [watermarkLogo, setWatermarkLogo] = useState<HTMLCanvasElement | null>(null);
+  // The shutter waits for the logo so no capture is saved without it.
+  const [isLoadingWatermarkLogo, setIsLoadingWatermarkLogo] = useState<boolean>(false);
+  const [captionNote, setCaptionNote] = useState<string | null>(null);
+  // Time and source of the still being reviewed, so re-rendering it keeps the original caption.
+  const captionContextRef = useRef<CaptionContext | null>(null);
+  const geolocation = useGeolocation(!!settings?.caption.enabled && captionUsesLocation(settings.caption.template));
+
+  const getCaptionContext = (
+    capturedAt = new Date(),
+    device = videoSource === 'screen' ? 'Screen' : getCameraLabel(availableCameras, activeCameraId) ?? 'Camera'
+  ): CaptionContext => ({
+    capturedAt,
+    device,
+    note: captionNote ?? settings?.caption.note ?? '',
+    location: geolocation.location,
+  });
+
+  /** Burns in the caption bar and watermark, the last steps before encoding. */
+  const stampOutput = (outputCanvas: HTMLCanvasElement, captionContext: CaptionContext = getCaptionContext()) => {
+    if (!settings) return;
+    drawCaptionBar(outputCanvas, settings.caption, formatCaption(settings.caption.template, captionContext));
+    drawWatermark(outputCanvas, settings.watermark, watermarkLogo);
+  };
+
+  const [isChromaKeyEnabled, setIsChromaKeyEnabled] = useState<boolean>(false);
+  const [chromaKeyOptions, setChromaKeyOptions] = useState<ChromaKeyOptions>(DEFAULT_CHROMA_KEY_OPTIONS);
+  const [chromaBackgroundImage, setChromaBackgroundImage] = useState<{ source: HTMLCanvasElement; name: string } | null>(null);
+  const [isPickingKeyColor, setIsPickingKeyColor] = useState<boolean>(false);
+
+  /** Replaces the key color in a freshly rendered output; runs before adjustments and stamping. */
+  const keyOutput = (outputCanvas: HTMLCanvasElement) => {
+    if (!isChromaKeyEnabled || !settings) return;
+    applyChromaKey(outputCanvas, chromaKeyOptions, chromaBackgroundImage?.source ?? null, supportsTransparency(settings.format));
+  };
+
+  const pipVideoRef = useRef<HTMLVideoElement>(null);
+  // Inset frame grabbed with the still being reviewed, so re-renders (crop, re-encode) keep it.
+  const pipFrameRef = useRef<HTMLCanvasElement | null>(null);
+  const [pipLayout, setPipLayout] = useState<PipLayout>(DEFAULT_PIP_LAYOUT);
+  const [isStartingPip, setIsStartingPip] = useState<boolean>(false);
+  // Inset source to bring back on retake; it is stopped with the main stream while a capture is reviewed.
+  const pipSourceToRestoreRef = useRef<PipSource | null>(null);
+  const pipStream = usePipStream(() => {
+    toast({ title: 'Inset Source Ended', description: 'Picture-in-picture has been turned off.' });
+  });
+
+  const grabPipFrame = () => (pipStream.stream && pipVideoRef.current ? grabVideoFrame(pipVideoRef.current) : null);
+
+  /** Everything between fitting a frame and encoding it: key, inset, adjustments, then caption and watermark. */
+  const finishOutput = (outputCanvas: HTMLCanvasElement, pipFrame: HTMLCanvasElement | null, captionContext?: CaptionContext) => {
+    keyOutput(outputCanvas);
+    if (pipFrame) drawPipInset(outputCanvas, pipFrame, pipLayout);
+    applyAdjustments(outputCanvas, imageAdjustments);
+    stampOutput(outputCanvas, captionContext);
+  };
+
+  const captureSessionFrame = () => {
+    if (!videoRef.current || !settings) return null;
+    const source = grabVideoFrame(videoRef.current);
+    return source ? createEncodedFrame(source, settings, (outputCanvas) => finishOutput(outputCanvas, grabPipFrame())) : null;
+  };
+  const intervalCapture = useIntervalCapture(captureSessionFrame);
+  // Motion shots go into the interval session's frame list so they share its review and ZIP/WebM export.
+  const motionCapture = useMotionCapture(videoRef, captureSessionFrame, (frame) => {
+    intervalCapture.setFrames(prev => [...prev, frame]);
+  });
+  const motionHiddenAtRef = useRef<Date | null>(null);
+  useEffect(() => {
+    if (motionCapture.isPageHidden) {
+      motionHiddenAtRef.current = new Date();
+      // Shown on return too, since a toast in a hidden tab goes unseen.
+      toast({
+        title: 'Motion Capture Slowed',
+        description: 'This tab is in the background, where the browser checks for motion once a second at most. Keep it visible to catch quick movement.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const hiddenAt = motionHiddenAtRef.current;
+    motionHiddenAtRef.current = null;
+    if (hiddenAt && motionCapture.isRunning) {
+      toast({
+        title: 'Motion May Have Been Missed',
+        description: `Detection was throttled while the tab was hidden, from ${format(hiddenAt, 'HH:mm:ss')} to ${format(new Date(), 'HH:mm:ss')}.`,
+        duration: 8000,
+      });
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [motionCapture.isPageHidden]);
+  const [motionRegion, setMotionRegion] = useState<Rect | null>(null);
+  const [motionSensitivity, setMotionSensitivity] = useState<number>(50);
+  const [motionCooldownSeconds, setMotionCooldownSeconds] = useState<number>(5);
+  const [motionMaxShots, setMotionMaxShots] = useState<number>(50);
 
-  const [availableCameras, setAvailableCameras] = useState<MediaDeviceInfo[]>([]);
-  const [currentCameraIndex, setCurrentCameraIndex] = useState<number>(0);
+  const [documentQuad, setDocumentQuad] = useState<Quad>(DEFAULT_DOCUMENT_QUAD);
+  const [isDocumentAutoDetect, setIsDocumentAutoDetect] = useState<boolean>(true);
+  const [isDocumentDetected, setIsDocumentDetected] = useState<boolean>(false);
+  const [documentPageSize, setDocumentPageSize] = useState<PageSize>('a4');
+  const [documentCleanup, setDocumentCleanup] = useState<DocumentCleanup>('none');
+
+  const [boothOptions, setBoothOptions] = useState<CollageOptions>(DEFAULT_COLLAGE_OPTIONS);
+  const [boothCountdownSeconds, setBoothCountdownSeconds] = useState<number>(3);
+
+  const scanFrame = useMemo(() => createFrameScanner(), []);
+  const [scanResults, setScanResults] = useState<ScanResult[]>([]);
+  const [isScanAutoFilename, setIsScanAutoFilename] = useState<boolean>(false);
+  // Replaces the generated filename prefix until the next capture has been reviewed.
+  const [scannedFilenamePrefix, setScannedFilenamePrefix] = useState<string | null>(null);
+
+  useFrameSampler(videoRef, (frame) => {
+    if (isHistogramEnabled) setHistogram(computeHistogram(frame));
+    if (isZebraEnabled && zebraCanvasRef.current) drawZebraStripes(zebraCanvasRef.current, frame);
+  }, { enabled: (isHistogramEnabled || isZebraEnabled) && !!stream && !isPreviewing });
+
+  useFrameSampler(videoRef, (frame) => {
+    const quad = detectDocumentQuad(frame);
+    setIsDocumentDetected(!!quad);
+    if (quad) setDocumentQuad(quad);
+  }, { enabled: captureMode === 'document' && isDocumentAutoDetect && !!stream && !isPreviewing, intervalMs: 400, maxDimension: 200 });
+
+  const addScanResult = (result: ScanResult) => {
+    if (scanResults[0]?.value !== result.value) playBeep(1320, 80);
+    setScanResults(prev => [result, ...prev.filter(r => r.value !== result.value)].slice(0, MAX_SCAN_RESULTS));
+    if (isScanAutoFilename) setScannedFilenamePrefix(toFilenamePrefix(result.value));
+  };
+
+  // 1D barcodes need horizontal resolution, so scanning samples well above the exposure tools' size.
+  useFrameSampler(videoRef, (frame) => {
+    const result = scanFrame(frame);
+    if (result) addScanResult(result);
+  }, { enabled: captureMode === 'scan' && !!stream && !isPreviewing, intervalMs: 300, maxDimension: 960 });
+
+  useFrameSampler(videoRef, (frame) => {
+    if (!chromaCanvasRef.current || !settings) return;
+    renderChromaKeyPreview(chromaCanvasRef.current, frame, chromaKeyOptions, chromaBackgroundImage?.source ?? null, supportsTransparency(settings.format));
+  }, { enabled: isChromaKeyEnabled && !!stream && !isPreviewing, intervalMs: 66, maxDimension: 640 });
+
+  // Peaking needs more detail than the exposure tools, so it samples larger frames more often.
+  useFrameSampler(videoRef, (frame) => {
+    if (peakingCanvasRef.current) drawFocusPeaking(peakingCanvasRef.current, frame, peakingColor);
+  }, { enabled: isPeakingEnabled && !!stream && !isPreviewing, intervalMs: 150, maxDimension: 480 });
 
   useEffect(() => {
     setIsLoadingSettings(true);
     try {
-      const widthStr = searchParams.get('width');
-      const heightStr = searchParams.get('height');
-      const formatStr = searchParams.get('format');
-      const aspectRatioKeyStr = searchParams.get('aspectRatioKey');
-      const targetFileSizeKBStr = searchParams.get('targetFileSizeKB');
-
-      if (widthStr && heightStr && formatStr && aspectRatioKeyStr && targetFileSizeKBStr) {
-        const parsedSettings: PixsnapSettings = {
-          width: parseInt(widthStr, 10),
-          height: parseInt(heightStr, 10),
-          format: formatStr as OutputFormat,
-          aspectRatioKey: aspectRatioKeyStr,
-          targetFileSizeKB: parseInt(targetFileSizeKBStr, 10),
-        };
-
-        if (isNaN(parsedSettings.width) || isNaN(parsedSettings.height) || isNaN(parsedSettings.targetFileSizeKB)) {
-          throw new Error("Invalid number format in URL parameters.");
-        }
-        const validFormats: OutputFormat[] = ['png', 'jpeg', 'webp'];
-        if (!validFormats.includes(parsedSettings.format)) {
-            throw new Error("Invalid format in URL parameters.");
-        }
+      const parsedSettings = parseSettingsFromSearchParams(searchParams);
+      if (parsedSettings) {
         setSettings(parsedSettings);
+        setOverlaySettings(parsedSettings.overlays);
+        if (parsedSettings.format === 'gif') setCaptureMode('gif');
       } else {
         setSettings(null);
         setWebcamError("Capture settings not found or incomplete in URL. Please configure them on the main page and try again.");
@@ -85,6 +445,38 @@ function PreviewCapturePageContent() {
     setIsLoadingSettings(false);
   }, [searchParams, toast]);
 
+  useEffect(() => {
+    setCanCaptureScreen(!!navigator.mediaDevices?.getDisplayMedia);
+  }, []);
+
+  useEffect(() => {
+    // MediaRecorder only exists in the browser, so probe formats after mount.
+    const formats = getSupportedVideoFormats();
+    setVideoFormats(formats);
+    setVideoFormatId(formats[0]?.id ?? '');
+  }, []);
+
+  useEffect(() => {
+    if (!recordedClip) return;
+    return () => URL.revokeObjectURL(recordedClip.url);
+  }, [recordedClip]);
+
+  useEffect(() => {
+    if (!recordedGif) return;
+    return () => URL.revokeObjectURL(recordedGif.url);
+  }, [recordedGif]);
+
+  useEffect(() => {
+    const frame = intervalCapture.frames.find(f => f.id === focusedIntervalId) ?? intervalCapture.frames[intervalCapture.frames.length - 1];
+    if (!frame) {
+      setFocusedIntervalUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(frame.blob);
+    setFocusedIntervalUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [intervalCapture.frames, focusedIntervalId]);
+
   const initializeCamera = useCallback(async () => {
     if (!settings) return; 
 
@@ -93,6 +485,7 @@ function PreviewCapturePageContent() {
     setHasCameraPermission(null); 
     setIsPreviewing(false); 
     setImageDataUrl(null);
+    setStreamResolution(null);
 
     if (stream) {
       stream.getTracks().forEach(track => track.stop());
@@ -107,35 +500,85 @@ function PreviewCapturePageContent() {
     let activeStream: MediaStream | null = null;
 
     try {
-      const devices = await navigator.mediaDevices.enumerateDevices();
-      const videoCameras = devices.filter(device => device.kind === 'videoinput');
-      setAvailableCameras(videoCameras);
-
-      if (videoCameras.length === 0) {
-        setWebcamError('No video cameras found on this device.');
-        setHasCameraPermission(false);
-        setIsLoadingCamera(false);
-        return;
-      }
+      let newMediaStream: MediaStream;
+      if (videoSource === 'screen') {
+        const screenStream = pendingScreenStreamRef.current;
+        pendingScreenStreamRef.current = null;
+        if (!screenStream) {
+          // Nothing was picked for this run (e.g. the settings changed); share again from the button.
+          setIsLoadingCamera(false);
+          setVideoSource('camera');
+          return;
+        }
+        newMediaStream = screenStream;
+        // Fired when the user ends sharing from the browser's own UI, not when we stop the track ourselves.
+        newMediaStream.getVideoTracks()[0]?.addEventListener('ended', () => {
+          intervalCapture.stop();
+          motionCapture.stop();
+          clipRecorder.stop();
+          setStream(s => (s === newMediaStream ? null : s));
+          toast({ title: 'Screen Sharing Stopped', description: 'Switched back to the camera.' });
+          setVideoSource('camera');
+        });
+      } else {
+        const videoCameras = await cameraDevices.refresh();
+
+        if (videoCameras.length === 0) {
+          setWebcamError('No video cameras found on this device.');
+          setHasCameraPermission(false);
+          setIsLoadingCamera(false);
+          return;
+        }
       
-      const selectedCameraId = videoCameras[currentCameraIndex % videoCameras.length]?.deviceId;
-      const constraints: MediaStreamConstraints = {
-        video: { 
-            deviceId: selectedCameraId ? { exact: selectedCameraId } : undefined,
+        // Ask for the output size up front so the browser doesn't hand us its default (often 640x480),
+        // which handleCapture would otherwise silently upscale.
+        const getConstraints = (cameras: MediaDeviceInfo[]): MediaStreamConstraints => ({
+          video: { 
+              ...getCameraConstraint(cameraSelection, cameras),
+              width: { ideal: settings.width },
+              height: { ideal: settings.height },
+              aspectRatio: { ideal: settings.width / settings.height },
+          }
+        });
+
+        newMediaStream = await navigator.mediaDevices.getUserMedia(getConstraints(videoCameras));
+
+        // Device IDs and labels only become readable once permission has been granted, so on first
+        // load the remembered camera can't be matched yet. Look again and reopen it if it's there.
+        if (videoCameras.some(camera => !camera.deviceId || !camera.label)) {
+          const grantedCameras = await cameraDevices.refresh();
+          const openedId = newMediaStream.getVideoTracks()[0]?.getSettings().deviceId;
+          if (
+            cameraSelection.kind === 'device'
+            && openedId !== cameraSelection.deviceId
+            && grantedCameras.some(camera => camera.deviceId === cameraSelection.deviceId)
+          ) {
+            newMediaStream.getTracks().forEach(track => track.stop());
+            newMediaStream = await navigator.mediaDevices.getUserMedia(getConstraints(grantedCameras));
+          }
         }
-      };
 
-      const newMediaStream = await navigator.mediaDevices.getUserMedia(constraints);
+        setActiveCameraId(newMediaStream.getVideoTracks()[0]?.getSettings().deviceId ?? null);
+      }
       activeStream = newMediaStream;
       setStream(newMediaStream);
       setHasCameraPermission(true);
+
+      const trackSettings = newMediaStream.getVideoTracks()[0]?.getSettings();
+      if (trackSettings?.width && trackSettings?.height) {
+        reportStreamResolution(trackSettings.width, trackSettings.height);
+      }
       
       if (videoRef.current) {
         videoRef.current.srcObject = newMediaStream;
         setIsLoadingCamera(false); // Moved up to enable Switch Camera button sooner
 
         videoRef.current.onloadedmetadata = () => {
-           // console.log("Video metadata loaded");
+          // Some browsers only report the negotiated size once frames arrive.
+          const video = videoRef.current;
+          if (video && video.videoWidth && video.videoHeight && !(trackSettings?.width && trackSettings?.height)) {
+            reportStreamResolution(video.videoWidth, video.videoHeight);
+          }
         };
         videoRef.current.onerror = () => {
             console.error('Video element error');
@@ -165,7 +608,56 @@ function PreviewCapturePageContent() {
       setStream(null);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [settings, currentCameraIndex]); 
+  }, [settings, cameraSelection, videoSource]); 
+
+  /**
+   * Asks the user to pick a screen, window or tab. Must be called straight from a click handler:
+   * Safari and some Chromium builds reject getDisplayMedia once the user gesture has expired.
+   */
+  const requestScreenStream = async (): Promise<boolean> => {
+    if (!settings) return false;
+    try {
+      if (!navigator.mediaDevices?.getDisplayMedia) {
+        throw Object.assign(new Error('Screen capture is not supported in this browser.'), { name: 'NotSupportedError' });
+      }
+      pendingScreenStreamRef.current = await navigator.mediaDevices.getDisplayMedia({
+        video: {
+          width: { ideal: settings.width },
+          height: { ideal: settings.height },
+        },
+        audio: false,
+      });
+      return true;
+    } catch (err: any) {
+      console.error("Error starting screen capture:", err);
+      const cancelled = err.name === "NotAllowedError" || err.name === "AbortError";
+      toast({
+        title: cancelled ? 'Screen Sharing Cancelled' : 'Screen Capture Error',
+        description: cancelled ? 'Still using the camera.' : err.message,
+        variant: cancelled ? 'default' : 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleToggleScreen = async () => {
+    if (videoSource === 'screen') {
+      setVideoSource('camera');
+      return;
+    }
+    if (await requestScreenStream()) setVideoSource('screen');
+  };
+
+  const reportStreamResolution = (width: number, height: number) => {
+    setStreamResolution({ width, height });
+    if (settings && isUpscaled(computeFitRects(width, height, settings.width, settings.height, settings.fitMode))) {
+      toast({
+        title: 'Low Camera Resolution',
+        description: `Camera delivered ${width}x${height}. Output ${settings.width}x${settings.height} will be upscaled and may look soft.`,
+        duration: 6000,
+      });
+    }
+  };
 
   useEffect(() => {
     if (!isLoadingSettings && settings && !isPreviewing) { 
@@ -185,15 +677,90 @@ function PreviewCapturePageContent() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isLoadingSettings, settings, initializeCamera]); 
 
-  const getEstimatedByteSize = (dataUri: string): number => {
-    if (!dataUri.includes(',')) return 0;
-    const base64 = dataUri.substring(dataUri.indexOf(',') + 1);
-    const paddingMatch = base64.match(/(=*)$/);
-    const padding = paddingMatch ? paddingMatch[1].length : 0;
-    return (base64.length * 3/4) - padding;
+  const stopActiveStream = () => {
+    const activeStream = streamRef.current;
+    if (activeStream) {
+      activeStream.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+      setStream(null); 
+    }
+    if (videoRef.current && videoRef.current.srcObject) {
+        const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
+        tracks.forEach(track => track.stop());
+        videoRef.current.srcObject = null;
+    }
+    // Turn the inset camera or share off too, so its indicator doesn't stay on during review.
+    if (pipStream.source) {
+      pipSourceToRestoreRef.current = pipStream.source;
+      pipStream.stop();
+    }
+  };
+
+  /** Encodes an already keyed output frame with the given adjustments, caption and watermark. */
+  const encodeOutput = (
+    baseCanvas: HTMLCanvasElement,
+    outputSettings: PixsnapSettings,
+    adjustments: ImageAdjustments = imageAdjustments
+  ) => {
+    const adjustedCanvas = copyCanvas(baseCanvas);
+    applyAdjustments(adjustedCanvas, adjustments);
+    captionContextRef.current ??= getCaptionContext();
+    stampOutput(adjustedCanvas, captionContextRef.current);
+    const result = encodeCanvas(adjustedCanvas, outputSettings.format, outputSettings.targetFileSizeKB);
+    const feedback = describeEncodeResult(result, outputSettings.format, outputSettings.targetFileSizeKB);
+    if (feedback) toast(feedback);
+    setImageDataUrl(result.dataUrl);
+    setImageSize({ width: baseCanvas.width, height: baseCanvas.height });
   };
 
-  const handleCapture = () => {
+  const showEncodedOutput = (outputCanvas: HTMLCanvasElement, outputSettings: PixsnapSettings) => {
+    const baseCanvas = copyCanvas(outputCanvas);
+    keyOutput(baseCanvas);
+    if (pipFrameRef.current) drawPipInset(baseCanvas, pipFrameRef.current, pipLayout);
+    outputBaseRef.current = baseCanvas;
+    encodeOutput(baseCanvas, outputSettings);
+  };
+
+  useEffect(() => {
+    if (settings?.watermark.kind !== 'logo') return;
+    let cancelled = false;
+    setIsLoadingWatermarkLogo(true);
+    loadWatermarkLogo()
+      .then(logo => {
+        if (cancelled) return;
+        setWatermarkLogo(logo);
+        if (!logo) toast({ title: 'No Watermark Logo', description: 'Upload a logo on the settings page; captures are saved without it.', variant: 'destructive' });
+      })
+      .catch(e => {
+        console.error("Error loading watermark logo:", e);
+        toast({ title: 'Watermark Error', description: 'The stored logo could not be read.', variant: 'destructive' });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingWatermarkLogo(false);
+      });
+    return () => {
+      cancelled = true;
+      setIsLoadingWatermarkLogo(false);
+    };
+  }, [settings?.watermark.kind, toast]);
+
+  // ImageCapture only works on camera tracks; screen shares always use the video-frame path.
+  useEffect(() => {
+    const track = videoSource === 'camera' ? stream?.getVideoTracks()[0] : undefined;
+    if (!track) {
+      setStillSupport(null);
+      return;
+    }
+    let cancelled = false;
+    getStillCaptureSupport(track).then(support => {
+      if (!cancelled) setStillSupport(support);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [stream, videoSource]);
+
+  const handleCapture = async () => {
     if (!videoRef.current || !canvasRef.current || !stream || !hasCameraPermission || !settings) {
       toast({ title: 'Error', description: 'Webcam not ready or settings missing.', variant: 'destructive' });
       return;
@@ -205,177 +772,781 @@ function PreviewCapturePageContent() {
     canvas.width = settings.width;
     canvas.height = settings.height;
     
+    // Keep the full camera frame around so the editor can re-crop without losing resolution.
+    // Prefer a real still from the sensor; the <video> frame is capped at the preview stream's size.
+    let sourceFrame: HTMLCanvasElement | null = null;
+    let captureMethod: StillCaptureMethod = 'video-frame';
+    let fallbackReason: string | null = stillSupport ? null : 'ImageCapture is not available for this source.';
+    const track = stream.getVideoTracks()[0];
+    if (stillSupport && track) {
+      try {
+        const photo = await takeStillPhoto(track, stillSupport, stillOptions, settings);
+        sourceFrame = matchPreviewFraming(photo, video.videoWidth, video.videoHeight);
+        if (sourceFrame) captureMethod = 'image-capture';
+        else fallbackReason = `Photo ${photo.width}x${photo.height} is framed differently from the preview`;
+      } catch (err: any) {
+        console.error("ImageCapture takePhoto failed, using the video frame instead:", err);
+        fallbackReason = `takePhoto failed: ${err?.message || err}`;
+      }
+    }
+    if (!sourceFrame) sourceFrame = grabVideoFrame(video);
     const context = canvas.getContext('2d');
-    if (!context) {
+    if (!context || !sourceFrame) {
       toast({ title: 'Error', description: 'Could not get canvas context.', variant: 'destructive' });
       setIsCapturingPhoto(false);
       return;
     }
     
-    context.drawImage(video, 0, 0, canvas.width, canvas.height);
-    
-    let imageMimeType: string;
-    let initialQuality: number | undefined = undefined;
-
-    switch (settings.format) {
-      case 'jpeg':
-        imageMimeType = 'image/jpeg';
-        initialQuality = 0.92; 
-        break;
-      case 'webp':
-        imageMimeType = 'image/webp';
-        initialQuality = 0.90; 
-        break;
-      case 'png':
-      default:
-        imageMimeType = 'image/png';
-        break;
+    sourceFrameRef.current = sourceFrame;
+    pipFrameRef.current = grabPipFrame();
+    setCaptureEdit(null);
+    setLastCaptureInfo({ method: captureMethod, width: sourceFrame.width, height: sourceFrame.height });
+
+    drawFitted(context, sourceFrame, sourceFrame.width, sourceFrame.height, settings.fitMode, settings.fillColor);
+    showEncodedOutput(canvas, settings);
+    setIsPreviewing(true);
+    setIsCapturingPhoto(false);
+    stopActiveStream();
+
+    toast({
+      title: 'Image Captured!',
+      description: `${STILL_CAPTURE_METHODS[captureMethod].label} ${sourceFrame.width}x${sourceFrame.height}${fallbackReason ? `. ${fallbackReason}` : ''}`,
+    });
+  };
+
+  /**
+   * Takes the booth's shots, each after its own countdown, and lays them out as one collage.
+   * Shots are live video frames rather than ImageCapture stills: takePhoto() can take a second or
+   * more and briefly freezes the preview on many cameras, which breaks the countdown rhythm. The
+   * collage is one capture, so adjustments, caption and watermark run once on it in encodeOutput.
+   */
+  const handleBoothCapture = async () => {
+    if (!videoRef.current || !stream || !hasCameraPermission || !settings) {
+      toast({ title: 'Error', description: 'Webcam not ready or settings missing.', variant: 'destructive' });
+      return;
     }
-    
-    let tempImageUrl = canvas.toDataURL(imageMimeType, initialQuality);
-    let finalQuality = initialQuality;
-
-    if ((settings.format === 'jpeg' || settings.format === 'webp') && settings.targetFileSizeKB > 0 && initialQuality !== undefined) {
-      let currentQuality = initialQuality;
-      const targetSizeBytes = settings.targetFileSizeKB * 1024;
-      const minQuality = 0.1;
-      const qualityStep = 0.05;
-      let attempts = 0;
-      const maxAttempts = Math.ceil((currentQuality - minQuality) / qualityStep) + 5; 
-      let currentSize = getEstimatedByteSize(tempImageUrl);
-
-      while (currentSize > targetSizeBytes && currentQuality > minQuality && attempts < maxAttempts) {
-        currentQuality -= qualityStep;
-        if (currentQuality < minQuality) currentQuality = minQuality; 
-        
-        const nextImgUrl = canvas.toDataURL(imageMimeType, currentQuality);
-        const nextSize = getEstimatedByteSize(nextImgUrl);
-
-        if (nextSize < currentSize || (nextSize > currentSize && currentSize > targetSizeBytes) ) {
-             tempImageUrl = nextImgUrl;
-             currentSize = nextSize;
-             finalQuality = currentQuality;
-        } else if (nextSize > currentSize && currentSize <= targetSizeBytes) {
-            break;
+    const shotCount = COLLAGE_LAYOUTS[boothOptions.layout].shots;
+    const shots: HTMLCanvasElement[] = [];
+    const pipFrames: (HTMLCanvasElement | null)[] = [];
+    setIsCapturingPhoto(true);
+    try {
+      for (let i = 0; i < shotCount; i++) {
+        setLiveCaptureProgress(`Shot ${i + 1} of ${shotCount}`);
+        const completed = await countdown.start(boothCountdownSeconds, () => {
+          if (isTimerBeepEnabled) playBeep(880, 100);
+        });
+        if (!completed) {
+          toast({ title: 'Booth Cancelled', description: `${shots.length} of ${shotCount} shots were taken.` });
+          return;
         }
-        attempts++;
-        if (currentQuality <= minQuality && currentSize > targetSizeBytes) break; 
+        if (isTimerBeepEnabled) playBeep(1320, 250);
+        const shot = videoRef.current ? grabVideoFrame(videoRef.current) : null;
+        if (!shot) throw new Error('Could not read a frame from the camera.');
+        // Key each shot on its own so the collage background is never mistaken for the backdrop.
+        keyOutput(shot);
+        shots.push(shot);
+        pipFrames.push(grabPipFrame());
       }
-      if (currentSize > targetSizeBytes) {
-        toast({ title: 'File Size Warning', description: `Could not meet target ${settings.targetFileSizeKB} KB. Actual: ${(currentSize / 1024).toFixed(1)} KB at quality ${(finalQuality!*100).toFixed(0)}%.`, duration: 5000 });
-      } else if (finalQuality !== initialQuality) {
-         toast({ title: 'File Size Optimized', description: `Image size: ${(currentSize / 1024).toFixed(1)} KB at quality ${(finalQuality!*100).toFixed(0)}%.`, duration: 3000 });
+      setLiveCaptureProgress(null);
+      setCaptureProgress('Building collage...');
+
+      // The inset goes into each cell, where the viewfinder showed it, rather than once over the whole collage.
+      const collage = renderCollage(shots, boothOptions, settings.width, settings.height, (cell, i) => {
+        const pipFrame = pipFrames[i];
+        if (pipFrame) drawPipInset(cell, pipFrame, pipLayout);
+      });
+      clearCaptureResults();
+      // The collage isn't a single camera frame, so the crop editor doesn't apply.
+      sourceFrameRef.current = null;
+      outputBaseRef.current = collage;
+      encodeOutput(collage, settings);
+      setIsPreviewing(true);
+      stopActiveStream();
+      toast({ title: 'Collage Ready!', description: `${COLLAGE_LAYOUTS[boothOptions.layout].label}, ${settings.width}x${settings.height}.` });
+    } catch (e: any) {
+      console.error("Error creating collage:", e);
+      toast({ title: 'Booth Error', description: e.message, variant: 'destructive' });
+    } finally {
+      setLiveCaptureProgress(null);
+      setCaptureProgress(null);
+      setIsCapturingPhoto(false);
+    }
+  };
+
+  /**
+   * One-off scan for codes too small or dense for the live sampler: first the video frame at full
+   * resolution, then a full-sensor still if the camera offers one.
+   */
+  const handleScanStill = async () => {
+    if (!videoRef.current || !stream || !hasCameraPermission || !settings) {
+      toast({ title: 'Error', description: 'Webcam not ready or settings missing.', variant: 'destructive' });
+      return;
+    }
+    setIsCapturingPhoto(true);
+    setCaptureProgress('Scanning...');
+    try {
+      const videoFrame = grabVideoFrame(videoRef.current);
+      let result = videoFrame ? scanFrame(getScanImageData(videoFrame, SCAN_STILL_MAX_DIMENSION)) : null;
+      const track = stream.getVideoTracks()[0];
+      if (!result && stillSupport && track) {
+        setCaptureProgress('Scanning full-resolution photo...');
+        const photo = await takeStillPhoto(track, stillSupport, stillOptions, settings);
+        result = scanFrame(getScanImageData(photo, SCAN_STILL_MAX_DIMENSION));
       }
-    } else if (settings.format === 'png' && settings.targetFileSizeKB > 0) {
-        const currentSize = getEstimatedByteSize(tempImageUrl);
-         if (currentSize > settings.targetFileSizeKB * 1024) {
-            toast({ title: 'File Size Note', description: `PNG size: ${(currentSize / 1024).toFixed(1)} KB. Target size affects JPEG/WEBP quality.`, duration: 5000 });
-        }
+      if (result) addScanResult(result);
+      else toast({ title: 'No Code Found', description: 'Move closer or improve the lighting and try again.' });
+    } catch (e: any) {
+      console.error("Error scanning still:", e);
+      toast({ title: 'Scan Error', description: e?.message || 'Could not take a photo to scan.', variant: 'destructive' });
+    } finally {
+      setCaptureProgress(null);
+      setIsCapturingPhoto(false);
     }
-    
-    setImageDataUrl(tempImageUrl);
-    setIsPreviewing(true);
-    setIsCapturingPhoto(false);
+  };
 
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-      setStream(null); 
+  const handleDocumentCapture = () => {
+    if (!videoRef.current || !stream || !hasCameraPermission || !settings) {
+      toast({ title: 'Error', description: 'Webcam not ready or settings missing.', variant: 'destructive' });
+      return;
     }
-    if (videoRef.current && videoRef.current.srcObject) {
-        const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
-        tracks.forEach(track => track.stop());
-        videoRef.current.srcObject = null;
+    const sourceFrame = grabVideoFrame(videoRef.current);
+    if (!sourceFrame) {
+      toast({ title: 'Error', description: 'Could not get canvas context.', variant: 'destructive' });
+      return;
     }
+    setIsCapturingPhoto(true);
+    try {
+      const size = getDocumentOutputSize(
+        documentQuad,
+        sourceFrame.width,
+        sourceFrame.height,
+        documentPageSize,
+        Math.max(settings.width, settings.height)
+      );
+      const page = warpDocument(sourceFrame, documentQuad, size.width, size.height);
+      applyDocumentCleanup(page, documentCleanup);
 
-    toast({ title: 'Image Captured!' });
+      clearCaptureResults();
+      // The editor's crop is locked to the settings aspect ratio, which a flattened page doesn't share.
+      sourceFrameRef.current = null;
+      showEncodedOutput(page, settings);
+      setIsPreviewing(true);
+      stopActiveStream();
+      toast({ title: 'Document Captured!', description: `${PAGE_SIZES[documentPageSize].label} page, ${size.width}x${size.height}.` });
+    } catch (e: any) {
+      console.error("Error capturing document:", e);
+      toast({ title: 'Document Error', description: e.message, variant: 'destructive' });
+    } finally {
+      setIsCapturingPhoto(false);
+    }
   };
 
-  const handleDownload = async () => {
-    if (!imageDataUrl || !settings) {
-        toast({ title: 'Download Error', description: 'Image data not available.', variant: 'destructive' });
+  const handleBurstCapture = async () => {
+    if (!videoRef.current || !stream || !hasCameraPermission || !settings) {
+      toast({ title: 'Error', description: 'Webcam not ready or settings missing.', variant: 'destructive' });
+      return;
+    }
+    setIsCapturingPhoto(true);
+    const frames: SessionFrame[] = [];
+    try {
+      for (let i = 0; i < burstCount; i++) {
+        setCaptureProgress(`Burst ${i + 1}/${burstCount}...`);
+        const source = videoRef.current ? grabVideoFrame(videoRef.current) : null;
+        if (source) frames.push(createSessionFrame(source, settings, grabPipFrame()));
+        if (i < burstCount - 1) await delay(burstIntervalMs);
+      }
+    } finally {
+      setCaptureProgress(null);
+      setIsCapturingPhoto(false);
+    }
+
+    if (frames.length === 0) {
+      toast({ title: 'Burst Failed', description: 'No frames could be read from the camera.', variant: 'destructive' });
+      return;
+    }
+
+    // Score after the burst so the analysis doesn't stretch the capture interval.
+    const analysisScale = getDownscaleFactor(settings.width, settings.height, SHARPNESS_ANALYSIS_MAX_DIMENSION);
+    frames.forEach(frame => {
+      frame.sharpness = measureSharpness(renderFittedFrame(frame.source, settings, analysisScale));
+    });
+    const sharpest = findSharpestFrame(frames) ?? frames[0];
+
+    setBurstFrames(frames);
+    setSelectedBurstIds([sharpest.id]);
+    setFocusedBurstId(sharpest.id);
+    setIsPreviewing(true);
+    stopActiveStream();
+    toast({ title: 'Burst Captured!', description: `${frames.length} frames. The sharpest one is preselected.` });
+  };
+
+  const getTimerSeconds = (): number => {
+    if (timerOption === 'off') return 0;
+    if (timerOption === 'custom') return customTimerSeconds;
+    return parseInt(timerOption, 10);
+  };
+
+  /** Shutter entry point: runs the self-timer (if set) and then the active capture mode. */
+  const handleShutter = async () => {
+    // The booth counts down before every shot itself, so a self-timer would only add a second countdown.
+    const timerSeconds = captureMode === 'booth' ? 0 : getTimerSeconds();
+    if (timerSeconds > 0) {
+      const completed = await countdown.start(timerSeconds, () => {
+        if (isTimerBeepEnabled) playBeep(880, 100);
+      });
+      if (!completed) {
+        toast({ title: 'Timer Cancelled' });
         return;
+      }
+      if (isTimerBeepEnabled) playBeep(1320, 250);
     }
-    setIsGeneratingName(true);
-    toast({ title: 'Generating Filename', description: 'Getting a creative name for your image...', duration: 3000 });
 
-    let filename = `pixsnap_image_${settings.width}x${settings.height}.${settings.format}`;
+    if (captureMode === 'document') {
+      handleDocumentCapture();
+    } else if (captureMode === 'booth') {
+      await handleBoothCapture();
+    } else if (captureMode === 'burst') {
+      await handleBurstCapture();
+    } else if (captureMode === 'interval') {
+      await handleIntervalCapture();
+    } else if (captureMode === 'motion') {
+      await handleMotionCapture();
+    } else if (captureMode === 'video') {
+      await handleRecordClip();
+    } else if (captureMode === 'gif') {
+      await handleRecordGif();
+    } else {
+      await handleCapture();
+    }
+  };
 
+  const handleRecordGif = async () => {
+    if (!videoRef.current || !stream || !hasCameraPermission || !settings) {
+      toast({ title: 'Error', description: 'Webcam not ready or settings missing.', variant: 'destructive' });
+      return;
+    }
+    setIsCapturingPhoto(true);
     try {
-      const genkitInput: GenerateImageNameInput = {
-        settings: {
-          width: settings.width,
-          height: settings.height,
-          format: settings.format,
-        },
-        timestamp: new Date().toISOString(),
-      };
-      const response = await generateImageName(genkitInput);
-      if (response && response.suggestedNamePrefix) {
-        filename = `${response.suggestedNamePrefix}_${settings.width}x${settings.height}.${settings.format}`;
-        toast({ title: 'Filename Generated!', description: `Using: ${filename}`, duration: 2000 });
+      const frames: ImageData[] = [];
+      // One caption for the whole animation, so the time in it doesn't tick from frame to frame.
+      const captionContext = getCaptionContext();
+      const frameScale = getDownscaleFactor(settings.width, settings.height, MAX_GIF_DIMENSION);
+      for (let i = 0; i < gifFrameCount; i++) {
+        setLiveCaptureProgress(`Recording GIF ${i + 1}/${gifFrameCount}`);
+        const source = videoRef.current ? grabVideoFrame(videoRef.current) : null;
+        if (source) {
+          const output = renderFittedFrame(source, settings, frameScale);
+          finishOutput(output, grabPipFrame(), captionContext);
+          frames.push(output.getContext('2d')!.getImageData(0, 0, output.width, output.height));
+        }
+        if (i < gifFrameCount - 1) await delay(gifOptions.delayMs);
+      }
+      setLiveCaptureProgress(null);
+      if (frames.length === 0) {
+        toast({ title: 'GIF Failed', description: 'No frames could be read from the camera.', variant: 'destructive' });
+        return;
+      }
+
+      stopActiveStream();
+      setCaptureProgress('Encoding GIF...');
+      const result = await encodeGifFramesAsync(
+        isGifBoomerang ? toBoomerang(frames) : frames,
+        gifOptions,
+        settings.targetFileSizeKB,
+        true,
+        (progress) => setCaptureProgress(
+          `Encoding GIF ${progress.framesDone}/${progress.frameCount}`
+            + (progress.attempt > 1 ? ` (retry ${progress.attempt - 1}: ${progress.colors} colors, ${progress.width}x${progress.height})` : '')
+            + '...'
+        )
+      );
+      const blob = new Blob([result.bytes as BlobPart], { type: 'image/gif' });
+      setRecordedGif({ ...result, url: URL.createObjectURL(blob) });
+      setIsPreviewing(true);
+
+      const sizeKB = (result.bytes.length / 1024).toFixed(1);
+      if (!result.metTarget) {
+        toast({ title: 'File Size Warning', description: `Could not meet target ${settings.targetFileSizeKB} KB. Actual: ${sizeKB} KB at ${result.colors} colors, ${result.width}x${result.height}.`, duration: 5000 });
       } else {
-        toast({ title: 'Filename Generation Failed', description: 'Using default filename.', variant: 'destructive', duration: 3000 });
+        toast({ title: 'GIF Created!', description: `${sizeKB} KB at ${result.colors} colors, ${result.width}x${result.height}.` });
       }
-    } catch (error) {
-      console.error('Error generating filename with Genkit:', error);
-      toast({ title: 'Filename Generation Error', description: 'Using default filename. Check console for details.', variant: 'destructive', duration: 5000 });
+    } catch (error: any) {
+      console.error("Error creating GIF:", error);
+      toast({ title: 'GIF Error', description: error.message, variant: 'destructive' });
     } finally {
-      setIsGeneratingName(false);
+      setLiveCaptureProgress(null);
+      setCaptureProgress(null);
+      setIsCapturingPhoto(false);
+    }
+  };
+
+  const handleRecordClip = async () => {
+    if (!videoRef.current || !stream || !hasCameraPermission || !settings) {
+      toast({ title: 'Error', description: 'Webcam not ready or settings missing.', variant: 'destructive' });
+      return;
+    }
+    const videoFormat = videoFormats.find(option => option.id === videoFormatId);
+    if (!videoFormat) {
+      toast({ title: 'Recording Error', description: 'This browser cannot record video.', variant: 'destructive' });
+      return;
     }
 
-    const link = document.createElement('a');
-    link.href = imageDataUrl;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    toast({ title: 'Download Started', description: `Image saved as ${filename}` });
+    try {
+      const clip = await clipRecorder.start({
+        video: videoRef.current,
+        settings,
+        format: videoFormat,
+        maxDurationSeconds: maxClipSeconds,
+        maxSizeBytes: maxClipSizeMB * 1024 * 1024,
+      });
+      setRecordedClip({ ...clip, url: URL.createObjectURL(clip.blob) });
+      setIsPreviewing(true);
+      stopActiveStream();
+
+      const sizeMB = (clip.blob.size / (1024 * 1024)).toFixed(1);
+      const sizeLimit = maxClipSizeMB > 0 ? ` of ${maxClipSizeMB} MB${clip.blob.size > maxClipSizeMB * 1024 * 1024 ? ' (over the limit)' : ''}` : '';
+      const reason = clip.stoppedBy === 'duration' ? ' (max duration reached)' : clip.stoppedBy === 'size' ? ' (max file size reached)' : '';
+      toast({ title: 'Clip Recorded!', description: `${formatDuration(clip.durationMs)}, ${sizeMB} MB${sizeLimit}${reason}.` });
+    } catch (error: any) {
+      console.error("Error recording clip:", error);
+      toast({ title: 'Recording Error', description: error.message, variant: 'destructive' });
+    }
   };
 
-  const handleRetake = () => {
-    setIsPreviewing(false);
-    setImageDataUrl(null);
-    if (settings) { 
-        initializeCamera(); 
+  const handleIntervalCapture = async () => {
+    if (!videoRef.current || !stream || !hasCameraPermission || !settings) {
+      toast({ title: 'Error', description: 'Webcam not ready or settings missing.', variant: 'destructive' });
+      return;
     }
+    setExcludedIntervalIds([]);
+    setFocusedIntervalId(null);
+    toast({ title: 'Interval Capture Started', description: `One shot every ${intervalSeconds}s. The camera stays on between shots.` });
+
+    const captured = await intervalCapture.start({
+      intervalSeconds,
+      stopCondition: intervalStopCondition,
+      stopValue: intervalStopValue,
+    });
+    if (captured === 0) {
+      toast({ title: 'Interval Capture Failed', description: 'No frames could be read from the camera.', variant: 'destructive' });
+      return;
+    }
+    setIsPreviewing(true);
+    stopActiveStream();
+    toast({ title: 'Interval Capture Finished', description: `${captured} frames captured.` });
   };
 
-  const handleSwitchCamera = () => {
-    if (availableCameras.length > 1) {
-      setCurrentCameraIndex((prevIndex) => (prevIndex + 1) % availableCameras.length);
+  const handleMotionCapture = async () => {
+    if (!videoRef.current || !stream || !hasCameraPermission || !settings) {
+      toast({ title: 'Error', description: 'Webcam not ready or settings missing.', variant: 'destructive' });
+      return;
+    }
+    intervalCapture.setFrames([]);
+    setExcludedIntervalIds([]);
+    setFocusedIntervalId(null);
+    toast({
+      title: 'Motion Capture Armed',
+      description: `Watching ${motionRegion ? 'the selected area' : 'the whole frame'}. Up to ${motionMaxShots} shots, at least ${motionCooldownSeconds}s apart.`,
+    });
+
+    const captured = await motionCapture.start({
+      region: motionRegion,
+      sensitivity: motionSensitivity,
+      cooldownSeconds: motionCooldownSeconds,
+      maxShots: motionMaxShots,
+    });
+    if (captured === 0) {
+      toast({ title: 'Motion Capture Stopped', description: 'No motion was detected.' });
+      return;
     }
+    setIsPreviewing(true);
+    stopActiveStream();
+    toast({ title: 'Motion Capture Finished', description: `${captured} shots captured.` });
   };
 
-  const handleClose = () => {
-    if (window.opener) {
-      window.close();
-    } else {
-      window.location.assign('/'); 
-      toast({ title: 'Closing Window', description: 'Attempting to close. If this fails, please close the tab manually.', variant: 'default' });
+  const getIncludedIntervalFrames = () => intervalCapture.frames.filter(frame => !excludedIntervalIds.includes(frame.id));
+
+  const toggleIntervalFrame = (id: string) => {
+    setExcludedIntervalIds(prev => (prev.includes(id) ? prev.filter(excludedId => excludedId !== id) : [...prev, id]));
+    setFocusedIntervalId(id);
+  };
+
+  const handleDownloadIntervalZip = async () => {
+    if (!settings) return;
+    const frames = getIncludedIntervalFrames();
+    if (frames.length === 0) {
+      toast({ title: 'No Frames Selected', description: 'Select at least one frame to export.', variant: 'destructive' });
+      return;
+    }
+    const sessionKind = captureMode === 'motion' ? 'motion' : 'interval';
+    const prefix = (await resolveFilenamePrefix()) ?? `pixsnap_${sessionKind}`;
+    setExportProgress('Building ZIP...');
+    try {
+      const entries = await Promise.all(frames.map(async (frame, index) => ({
+        name: `${prefix}_${String(index + 1).padStart(4, '0')}_${format(frame.capturedAt, 'yyyyMMdd-HHmmss')}.${settings.format}`,
+        data: new Uint8Array(await frame.blob.arrayBuffer()),
+        modifiedAt: frame.capturedAt,
+      })));
+      const filename = `${prefix}_${sessionKind}_${settings.width}x${settings.height}.zip`;
+      downloadBlob(createZip(entries), filename);
+      toast({ title: 'Download Started', description: `${frames.length} stills saved as ${filename}` });
+    } catch (error: any) {
+      console.error("Error building ZIP:", error);
+      toast({ title: 'Export Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setExportProgress(null);
     }
   };
-  
-  useEffect(() => {
-    if (!isLoadingSettings && settings && !isPreviewing) {
-      // This effect will re-trigger initializeCamera if currentCameraIndex changes
-      // The main initializeCamera call is in the effect dependent on [isLoadingSettings, settings, initializeCamera]
+
+  const handleExportTimelapse = async () => {
+    if (!settings) return;
+    const frames = getIncludedIntervalFrames();
+    if (frames.length === 0) {
+      toast({ title: 'No Frames Selected', description: 'Select at least one frame to export.', variant: 'destructive' });
+      return;
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentCameraIndex]);
+    if (!getSupportedWebmMimeType()) {
+      toast({ title: 'Export Error', description: 'This browser cannot record WebM video.', variant: 'destructive' });
+      return;
+    }
+    const prefix = (await resolveFilenamePrefix()) ?? 'pixsnap_timelapse';
+    setExportProgress('Rendering time-lapse...');
+    try {
+      const video = await renderTimelapseWebm(
+        frames.map(frame => frame.blob),
+        settings.width,
+        settings.height,
+        timelapseFps,
+        (done, total) => setExportProgress(`Rendering time-lapse ${done}/${total}...`)
+      );
+      const filename = `${prefix}_timelapse_${settings.width}x${settings.height}.webm`;
+      downloadBlob(video, filename);
+      toast({ title: 'Download Started', description: `Time-lapse saved as ${filename}` });
+    } catch (error: any) {
+      console.error("Error rendering time-lapse:", error);
+      toast({ title: 'Export Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setExportProgress(null);
+    }
+  };
 
+  const toggleBurstSelection = (id: string) => {
+    setSelectedBurstIds(prev => (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]));
+    setFocusedBurstId(id);
+  };
 
-  if (isLoadingSettings) {
-    return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-black text-white p-4">
-        <Loader2 size={48} className="animate-spin mb-2"/>
-        <p className="text-xl">Loading Settings...</p>
-      </div>
-    );
-  }
+  const handleKeepBurstFrames = async () => {
+    if (!settings) return;
+    const selectedFrames = burstFrames.filter(frame => selectedBurstIds.includes(frame.id));
+    if (selectedFrames.length === 0) {
+      toast({ title: 'No Frames Selected', description: 'Select at least one frame to keep.', variant: 'destructive' });
+      return;
+    }
 
-  if (!settings) {
-     return (
-      <div className="flex flex-col items-center justify-center min-h-screen bg-black text-white p-4 text-center">
+    if (selectedFrames.length === 1) {
+      // A single keeper continues through the normal edit / download flow.
+      sourceFrameRef.current = selectedFrames[0].source;
+      captionContextRef.current = getCaptionContext(selectedFrames[0].capturedAt);
+      pipFrameRef.current = selectedFrames[0].pipFrame ?? null;
+      setCaptureEdit(null);
+      showEncodedOutput(renderFittedFrame(selectedFrames[0].source, settings), settings);
+      setBurstFrames([]);
+      setSelectedBurstIds([]);
+      return;
+    }
+
+    // One archive rather than a download per frame, which browsers block or prompt for.
+    const prefix = (await resolveFilenamePrefix()) ?? 'pixsnap_burst';
+    try {
+      const entries: ZipEntry[] = [];
+      for (const [index, frame] of selectedFrames.entries()) {
+        setExportProgress(`Encoding ${index + 1}/${selectedFrames.length}...`);
+        // Let the progress label paint between full-size encodes.
+        await delay(0);
+        const outputCanvas = renderFittedFrame(frame.source, settings);
+        finishOutput(outputCanvas, frame.pipFrame ?? null, getCaptionContext(frame.capturedAt));
+        const result = encodeCanvas(outputCanvas, settings.format, settings.targetFileSizeKB);
+        entries.push({
+          name: `${prefix}_${index + 1}_${settings.width}x${settings.height}.${settings.format}`,
+          data: new Uint8Array(await dataUrlToBlob(result.dataUrl).arrayBuffer()),
+          modifiedAt: frame.capturedAt,
+        });
+      }
+      const filename = `${prefix}_burst_${settings.width}x${settings.height}.zip`;
+      downloadBlob(createZip(entries), filename);
+      toast({ title: 'Download Started', description: `${selectedFrames.length} frames saved as ${filename}` });
+    } catch (error: any) {
+      console.error("Error building ZIP:", error);
+      toast({ title: 'Export Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const handleApplyEdit = (edit: CaptureEdit) => {
+    const source = sourceFrameRef.current;
+    if (!source || !settings) {
+      toast({ title: 'Edit Error', description: 'Captured frame not available.', variant: 'destructive' });
+      return;
+    }
+    setIsApplyingEdit(true);
+    try {
+      const bounds = getEditBounds(source.width, source.height, edit);
+      const crop = edit.crop ?? (settings.fitMode === 'cover'
+        ? getCenteredCrop(bounds, settings.width / settings.height)
+        : { x: 0, y: 0, width: bounds.width, height: bounds.height });
+      // Render the crop at its own size, then fit it like an unedited capture so contain still letterboxes.
+      const edited = document.createElement('canvas');
+      edited.width = Math.max(1, Math.round(crop.width));
+      edited.height = Math.max(1, Math.round(crop.height));
+      renderEdit(edited, source, source.width, source.height, edit, crop);
+      showEncodedOutput(renderFittedFrame(edited, settings), settings);
+      setCaptureEdit(edit);
+      setActiveEditor(null);
+      toast({ title: 'Edits Applied' });
+    } catch (e: any) {
+      console.error("Error applying edits:", e);
+      toast({ title: 'Edit Error', description: e.message, variant: 'destructive' });
+    } finally {
+      setIsApplyingEdit(false);
+    }
+  };
+
+  const handleApplyAdjustments = (adjustments: ImageAdjustments) => {
+    const base = outputBaseRef.current;
+    if (!base || !settings) {
+      toast({ title: 'Adjustment Error', description: 'Captured frame not available.', variant: 'destructive' });
+      return;
+    }
+    setIsApplyingEdit(true);
+    try {
+      encodeOutput(base, settings, adjustments);
+      setImageAdjustments(adjustments);
+      setActiveEditor(null);
+      toast({
+        title: isNeutralAdjustments(adjustments) ? 'Adjustments Cleared' : 'Adjustments Applied',
+        description: 'They will also be applied to your next captures.',
+      });
+    } catch (e: any) {
+      console.error("Error applying adjustments:", e);
+      toast({ title: 'Adjustment Error', description: e.message, variant: 'destructive' });
+    } finally {
+      setIsApplyingEdit(false);
+    }
+  };
+
+  const handlePipSourceChange = async (source: PipSource | null) => {
+    if (!source) {
+      pipStream.stop();
+      return;
+    }
+    if (!settings) return;
+    setIsStartingPip(true);
+    try {
+      await pipStream.start(source, getPipStreamSize(settings.width, settings.height, pipLayout));
+    } catch (err: any) {
+      console.error("Error starting inset source:", err);
+      const description = err?.name === 'NotAllowedError'
+        ? 'Permission was denied for the inset source.'
+        : err?.name === 'NotReadableError'
+          ? 'That camera is busy. Some devices cannot stream two cameras at once.'
+          : err?.message || 'Could not start the inset source.';
+      toast({ title: 'Picture-in-Picture Error', description, variant: 'destructive' });
+    } finally {
+      setIsStartingPip(false);
+    }
+  };
+
+  const handleChromaBackgroundImage = async (file: File) => {
+    try {
+      const source = await loadImageFile(file);
+      setChromaBackgroundImage({ source, name: file.name || 'Background image' });
+    } catch (e: any) {
+      console.error("Error loading background image:", e);
+      toast({ title: 'Background Error', description: e?.message || 'Could not read that image.', variant: 'destructive' });
+    }
+  };
+
+  const handlePickKeyColor = (e: ReactMouseEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    if (!video) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const color = sampleVideoColor(video, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+    setIsPickingKeyColor(false);
+    if (!color) return;
+    setChromaKeyOptions(prev => ({ ...prev, keyColor: color }));
+    setIsChromaKeyEnabled(true);
+    toast({ title: 'Key Color Picked', description: color, duration: 2000 });
+  };
+
+  const resolveFilenamePrefix = async (fileFormat?: string): Promise<string | null> => {
+    if (!settings) return null;
+    if (scannedFilenamePrefix) return scannedFilenamePrefix;
+    return filenamePrefix.resolveFilenamePrefix(settings, fileFormat);
+  };
+
+  const handleDownloadClip = async () => {
+    if (!recordedClip || !settings) return;
+    const extension = recordedClip.format.extension;
+    let filename = `pixsnap_clip_${settings.width}x${settings.height}.${extension}`;
+    const prefix = await resolveFilenamePrefix(extension);
+    if (prefix) {
+      filename = `${prefix}_${settings.width}x${settings.height}.${extension}`;
+      toast({ title: 'Filename Generated!', description: `Using: ${filename}`, duration: 2000 });
+    }
+    triggerDownload(recordedClip.url, filename);
+    toast({ title: 'Download Started', description: `Clip saved as ${filename}` });
+  };
+
+  const handleDownloadGif = async () => {
+    if (!recordedGif) return;
+    const dimensions = `${recordedGif.width}x${recordedGif.height}`;
+    let filename = `pixsnap_animation_${dimensions}.gif`;
+    const prefix = await resolveFilenamePrefix('gif');
+    if (prefix) {
+      filename = `${prefix}_${dimensions}.gif`;
+      toast({ title: 'Filename Generated!', description: `Using: ${filename}`, duration: 2000 });
+    }
+    triggerDownload(recordedGif.url, filename);
+    toast({ title: 'Download Started', description: `GIF saved as ${filename}` });
+  };
+
+  const handleDownload = async () => {
+    if (recordedClip) {
+      await handleDownloadClip();
+      return;
+    }
+    if (recordedGif) {
+      await handleDownloadGif();
+      return;
+    }
+    if (!imageDataUrl || !settings) {
+        toast({ title: 'Download Error', description: 'Image data not available.', variant: 'destructive' });
+        return;
+    }
+
+    const dimensions = imageSize ? `${imageSize.width}x${imageSize.height}` : `${settings.width}x${settings.height}`;
+    let filename = `pixsnap_image_${dimensions}.${settings.format}`;
+    const prefix = await resolveFilenamePrefix();
+    if (prefix) {
+      filename = `${prefix}_${dimensions}.${settings.format}`;
+      toast({ title: 'Filename Generated!', description: `Using: ${filename}`, duration: 2000 });
+    }
+
+    triggerDownload(imageDataUrl, filename);
+    toast({ title: 'Download Started', description: `Image saved as ${filename}` });
+  };
+
+  /** Drops every capture result so a fresh one can be shown. */
+  const clearCaptureResults = () => {
+    setActiveEditor(null);
+    setImageDataUrl(null);
+    outputBaseRef.current = null;
+    captionContextRef.current = null;
+    pipFrameRef.current = null;
+    setImageSize(null);
+    sourceFrameRef.current = null;
+    setCaptureEdit(null);
+    setBurstFrames([]);
+    setSelectedBurstIds([]);
+    intervalCapture.setFrames([]);
+    setExcludedIntervalIds([]);
+    setRecordedClip(null);
+    setRecordedGif(null);
+    setLastCaptureInfo(null);
+  };
+
+  const handleRetake = async () => {
+    setIsPreviewing(false);
+    clearCaptureResults();
+    setScannedFilenamePrefix(null);
+    const pipSource = pipSourceToRestoreRef.current;
+    pipSourceToRestoreRef.current = null;
+    // Started before any await so a shared screen is still requested inside this click.
+    if (pipSource) handlePipSourceChange(pipSource);
+    // The share ended with the capture, so pick it again while this click still counts as a gesture.
+    if (videoSource === 'screen' && !(await requestScreenStream())) {
+      setVideoSource('camera');
+      return;
+    }
+    if (settings) { 
+        initializeCamera(); 
+    }
+  };
+
+  const handleImportImage = async (file: File) => {
+    if (!settings) return;
+    setIsCapturingPhoto(true);
+    try {
+      // Imported files stand in for the camera frame, so crop/rotate and re-encoding work unchanged.
+      const sourceFrame = await loadImageFile(file);
+      const outputCanvas = renderFittedFrame(sourceFrame, settings);
+
+      clearCaptureResults();
+      sourceFrameRef.current = sourceFrame;
+      captionContextRef.current = getCaptionContext(new Date(file.lastModified || Date.now()), 'Imported image');
+      showEncodedOutput(outputCanvas, settings);
+      setIsPreviewing(true);
+      stopActiveStream();
+      toast({ title: 'Image Imported', description: `${file.name || 'Pasted image'} (${sourceFrame.width}x${sourceFrame.height})` });
+    } catch (e: any) {
+      console.error("Error importing image:", e);
+      toast({ title: 'Import Error', description: e?.message || 'Could not read that image.', variant: 'destructive' });
+    } finally {
+      setIsCapturingPhoto(false);
+    }
+  };
+
+  const canImportImage = !!settings && settings.format !== 'gif' && !isEditing && !isCapturingPhoto && !isLoadingWatermarkLogo && !countdown.isRunning
+    && !intervalCapture.isRunning && !motionCapture.isRunning && !clipRecorder.isRecording && !exportProgress;
+  const imageImport = useImageImport(
+    handleImportImage,
+    () => toast({ title: 'Unsupported File', description: 'Import a JPEG, PNG or WEBP image.', variant: 'destructive' }),
+    canImportImage
+  );
+
+  // Fall back to the default camera when the active one is unplugged.
+  useEffect(() => {
+    if (videoSource !== 'camera' || isPreviewing || !stream || !activeCameraId || availableCameras.length === 0) return;
+    if (availableCameras.some(camera => camera.deviceId === activeCameraId)) return;
+    intervalCapture.stop();
+    motionCapture.stop();
+    clipRecorder.stop();
+    toast({ title: 'Camera Disconnected', description: 'Switched to the default camera.' });
+    if (cameraSelection.kind === 'default') initializeCamera();
+    else setCameraSelection({ kind: 'default' });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [availableCameras]);
+
+  const handleSelectCamera = (selection: CameraSelection) => {
+    if (selection.kind === 'device' && selection.deviceId === activeCameraId) return;
+    // Only an explicit pick is remembered; falling back to the default must not overwrite it.
+    if (selection.kind === 'device') saveLastCameraId(selection.deviceId);
+    setCameraSelection(selection);
+  };
+
+  const handleClose = () => {
+    if (window.opener) {
+      window.close();
+    } else {
+      window.location.assign('/'); 
+      toast({ title: 'Closing Window', description: 'Attempting to close. If this fails, please close the tab manually.', variant: 'default' });
+    }
+  };
+  
+
+  if (isLoadingSettings) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-black text-white p-4">
+        <Loader2 size={48} className="animate-spin mb-2"/>
+        <p className="text-xl">Loading Settings...</p>
+      </div>
+    );
+  }
+
+  if (!settings) {
+     return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-black text-white p-4 text-center">
         <XCircle size={48} className="mb-4 text-destructive"/>
         <p className="text-xl font-semibold">Error Loading Settings</p>
         <p className="text-md mb-4">{webcamError || "Could not load capture settings. Please close this window and try again from the main application."}</p>
@@ -384,11 +1555,179 @@ function PreviewCapturePageContent() {
     );
   }
   
-  const videoAspectRatio = settings.width > 0 && settings.height > 0 ? settings.width / settings.height : 16/9;
+  const outputAspectRatio = settings.width > 0 && settings.height > 0 ? settings.width / settings.height : 16/9;
+  const fitRects = streamResolution
+    ? computeFitRects(streamResolution.width, streamResolution.height, settings.width, settings.height, settings.fitMode)
+    : null;
+  const isUpscaling = !!fitRects && isUpscaled(fitRects);
+  const activeCameraLabel = getCameraLabel(availableCameras, activeCameraId);
+  // In cover mode the viewfinder shows the whole camera frame and masks off what gets cropped;
+  // contain and stretch already render exactly the output inside an output-shaped viewfinder.
+  const showsFullFrame = settings.fitMode === 'cover' && !!streamResolution;
+  const videoAspectRatio = showsFullFrame ? streamResolution.width / streamResolution.height : outputAspectRatio;
+  const framingMaskFrame = showsFullFrame && fitRects
+    ? {
+        left: fitRects.sx / streamResolution.width,
+        top: fitRects.sy / streamResolution.height,
+        width: fitRects.sw / streamResolution.width,
+        height: fitRects.sh / streamResolution.height,
+      }
+    : { left: 0, top: 0, width: 1, height: 1 };
+  // Where the video frame itself sits inside the viewfinder; only contain mode letterboxes it.
+  const streamAspectRatio = streamResolution ? streamResolution.width / streamResolution.height : videoAspectRatio;
+  const videoContentFrame = settings.fitMode === 'contain'
+    ? {
+        left: (1 - Math.min(1, streamAspectRatio / videoAspectRatio)) / 2,
+        top: (1 - Math.min(1, videoAspectRatio / streamAspectRatio)) / 2,
+        width: Math.min(1, streamAspectRatio / videoAspectRatio),
+        height: Math.min(1, videoAspectRatio / streamAspectRatio),
+      }
+    : { left: 0, top: 0, width: 1, height: 1 };
 
   return (
     <div className="flex flex-col items-stretch justify-between min-h-screen bg-black text-white overflow-hidden">
-      <div className="absolute top-2 right-2 md:top-4 md:right-4 z-50">
+      {imageImport.isDragging && <DropOverlay />}
+      <input
+        ref={imageImport.fileInputRef}
+        type="file"
+        accept={IMPORT_ACCEPTED_TYPES.join(',')}
+        className="hidden"
+        onChange={imageImport.handleFileInputChange}
+      />
+
+      <div className="absolute top-2 right-2 md:top-4 md:right-4 z-50 flex items-center gap-1">
+        {!isPreviewing && stream && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn("text-white hover:bg-white/20 rounded-full p-2", { 'bg-white/20': !!pipStream.stream })}
+                title="Picture-in-Picture"
+              >
+                <PictureInPicture2 size={24} />
+                <span className="sr-only">Picture-in-Picture</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80">
+              <PipOptions
+                source={pipStream.source}
+                onSourceChange={handlePipSourceChange}
+                cameras={videoSource === 'camera' ? availableCameras.filter(camera => camera.deviceId !== activeCameraId) : availableCameras}
+                allCameras={availableCameras}
+                canUseScreen={canCaptureScreen && videoSource !== 'screen'}
+                layout={pipLayout}
+                onLayoutChange={setPipLayout}
+                isStarting={isStartingPip}
+              />
+            </PopoverContent>
+          </Popover>
+        )}
+        {!isPreviewing && stream && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn("text-white hover:bg-white/20 rounded-full p-2", { 'bg-white/20': isChromaKeyEnabled })}
+                title="Chroma Key"
+              >
+                <Layers size={24} />
+                <span className="sr-only">Chroma Key</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80">
+              <ChromaKeyOptionsPanel
+                isEnabled={isChromaKeyEnabled}
+                onEnabledChange={setIsChromaKeyEnabled}
+                value={chromaKeyOptions}
+                onChange={setChromaKeyOptions}
+                allowTransparency={supportsTransparency(settings.format)}
+                backgroundImageName={chromaBackgroundImage?.name ?? null}
+                onBackgroundImageChange={handleChromaBackgroundImage}
+                isPickingColor={isPickingKeyColor}
+                onPickColorToggle={() => setIsPickingKeyColor(picking => !picking)}
+              />
+            </PopoverContent>
+          </Popover>
+        )}
+        {!isPreviewing && stream && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn("text-white hover:bg-white/20 rounded-full p-2", { 'bg-white/20': overlaySettings.enabled.length > 0 })}
+                title="Overlays"
+              >
+                <LayoutGrid size={24} />
+                <span className="sr-only">Viewfinder Overlays</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80">
+              <OverlayOptions value={overlaySettings} onChange={setOverlaySettings} idPrefix="preview-overlay" />
+            </PopoverContent>
+          </Popover>
+        )}
+        {!isPreviewing && stream && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn("text-white hover:bg-white/20 rounded-full p-2", { 'bg-white/20': isHistogramEnabled || isZebraEnabled || isPeakingEnabled })}
+                title="Viewfinder Assists"
+              >
+                <BarChart3 size={24} />
+                <span className="sr-only">Viewfinder Assists</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Exposure Assist</DropdownMenuLabel>
+              <DropdownMenuCheckboxItem checked={isHistogramEnabled} onCheckedChange={setIsHistogramEnabled}>
+                Histogram
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuCheckboxItem checked={isZebraEnabled} onCheckedChange={setIsZebraEnabled}>
+                Zebra Stripes
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Focus Assist</DropdownMenuLabel>
+              <DropdownMenuCheckboxItem checked={isPeakingEnabled} onCheckedChange={setIsPeakingEnabled}>
+                Focus Peaking
+              </DropdownMenuCheckboxItem>
+              {isPeakingEnabled && (
+                <DropdownMenuRadioGroup value={peakingColor} onValueChange={(value) => setPeakingColor(value as PeakingColor)}>
+                  {PEAKING_COLOR_KEYS_ORDERED.map(color => (
+                    <DropdownMenuRadioItem key={color} value={color}>
+                      <span className="mr-2 inline-block h-3 w-3 rounded-full border" style={{ backgroundColor: `rgb(${PEAKING_COLORS[color].rgb.join(',')})` }} />
+                      {PEAKING_COLORS[color].label}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {!isPreviewing && videoSource === 'camera' && stream && (
+          <CameraControls
+            track={stream.getVideoTracks()[0] ?? null}
+            deviceId={activeCameraId}
+            disabled={isCapturingPhoto}
+          />
+        )}
+        {!isEditing && (
+          <Button
+            onClick={imageImport.openFilePicker}
+            variant="ghost"
+            size="icon"
+            className="text-white hover:bg-white/20 rounded-full p-2"
+            disabled={!canImportImage}
+            title={settings?.format === 'gif' ? 'Imported images cannot be converted to GIF' : 'Import image (or drop / paste one)'}
+          >
+            <ImagePlus size={26} />
+            <span className="sr-only">Import Image</span>
+          </Button>
+        )}
         <Button onClick={handleClose} variant="ghost" size="icon" className="text-white hover:bg-white/20 rounded-full p-2">
           <XCircle size={28} />
           <span className="sr-only">Close Preview</span>
@@ -399,7 +1738,10 @@ function PreviewCapturePageContent() {
         {!isPreviewing && (
           <div 
             className="w-full h-full max-w-full max-h-full bg-black flex items-center justify-center relative"
-            style={{ aspectRatio: `${videoAspectRatio}` }}
+            style={{
+              aspectRatio: `${videoAspectRatio}`,
+              backgroundColor: settings.fitMode === 'contain' ? settings.fillColor : undefined,
+            }}
           >
             <video 
               ref={videoRef} 
@@ -407,17 +1749,187 @@ function PreviewCapturePageContent() {
               playsInline 
               muted 
               className={cn(
-                "object-contain w-full h-full rounded-none md:rounded-lg shadow-2xl",
+                "w-full h-full rounded-none md:rounded-lg shadow-2xl",
+                settings.fitMode === 'stretch' ? 'object-fill' : 'object-contain',
                 { 'opacity-100': stream && hasCameraPermission && !isLoadingCamera && !webcamError },
                 { 'opacity-0': isLoadingCamera || webcamError || !stream || hasCameraPermission !== true }
               )}
             />
             <canvas ref={canvasRef} className="hidden"></canvas>
+
+            {isChromaKeyEnabled && stream && hasCameraPermission && !isLoadingCamera && !webcamError && (
+              <canvas
+                ref={chromaCanvasRef}
+                className={cn(
+                  "absolute inset-0 w-full h-full pointer-events-none rounded-none md:rounded-lg",
+                  settings.fitMode === 'stretch' ? 'object-fill' : 'object-contain'
+                )}
+              />
+            )}
+
+            {isPickingKeyColor && stream && hasCameraPermission && !isLoadingCamera && !webcamError && (
+              <div
+                className="absolute z-30 cursor-crosshair"
+                style={{
+                  left: `${videoContentFrame.left * 100}%`,
+                  top: `${videoContentFrame.top * 100}%`,
+                  width: `${videoContentFrame.width * 100}%`,
+                  height: `${videoContentFrame.height * 100}%`,
+                }}
+                onClick={handlePickKeyColor}
+                title="Click the backdrop to pick the key color"
+              />
+            )}
+
+            {stream && hasCameraPermission && !isLoadingCamera && !webcamError && (
+              <FramingMask frame={framingMaskFrame} />
+            )}
+
+            {captureMode === 'document' && stream && hasCameraPermission && !isLoadingCamera && !webcamError && (
+              <div
+                className="absolute"
+                style={{
+                  left: `${videoContentFrame.left * 100}%`,
+                  top: `${videoContentFrame.top * 100}%`,
+                  width: `${videoContentFrame.width * 100}%`,
+                  height: `${videoContentFrame.height * 100}%`,
+                }}
+              >
+                <DocumentCorners
+                  quad={documentQuad}
+                  onChange={(quad) => {
+                    setIsDocumentAutoDetect(false);
+                    setIsDocumentDetected(false);
+                    setDocumentQuad(quad);
+                  }}
+                  isDetected={isDocumentAutoDetect && isDocumentDetected}
+                  disabled={isCapturingPhoto || countdown.isRunning}
+                />
+              </div>
+            )}
+
+            {captureMode === 'motion' && stream && hasCameraPermission && !isLoadingCamera && !webcamError && (
+              <div
+                className="absolute"
+                style={{
+                  left: `${videoContentFrame.left * 100}%`,
+                  top: `${videoContentFrame.top * 100}%`,
+                  width: `${videoContentFrame.width * 100}%`,
+                  height: `${videoContentFrame.height * 100}%`,
+                }}
+              >
+                <MotionRegionSelector
+                  region={motionRegion}
+                  onChange={setMotionRegion}
+                  isLocked={motionCapture.isRunning || isCapturingPhoto || countdown.isRunning}
+                  isTriggered={!!motionCapture.lastTriggeredAt && Date.now() - motionCapture.lastTriggeredAt < 800}
+                />
+              </div>
+            )}
+
+            {isZebraEnabled && stream && hasCameraPermission && !isLoadingCamera && !webcamError && (
+              <canvas
+                ref={zebraCanvasRef}
+                className={cn(
+                  "absolute inset-0 w-full h-full pointer-events-none rounded-none md:rounded-lg",
+                  settings.fitMode === 'stretch' ? 'object-fill' : 'object-contain'
+                )}
+              />
+            )}
+
+            {isPeakingEnabled && stream && hasCameraPermission && !isLoadingCamera && !webcamError && (
+              <canvas
+                ref={peakingCanvasRef}
+                className={cn(
+                  "absolute inset-0 w-full h-full pointer-events-none rounded-none md:rounded-lg",
+                  settings.fitMode === 'stretch' ? 'object-fill' : 'object-contain'
+                )}
+              />
+            )}
+
+            {isHistogramEnabled && histogram && stream && !isLoadingCamera && !webcamError && (
+              <HistogramPanel histogram={histogram} className="absolute top-10 left-2 z-20" />
+            )}
+
+            {stream && hasCameraPermission && !isLoadingCamera && !webcamError && (
+              <ViewfinderOverlays
+                overlays={overlaySettings}
+                frame={framingMaskFrame}
+                outputWidth={settings.width}
+                outputHeight={settings.height}
+              />
+            )}
+
+            {pipStream.stream && stream && hasCameraPermission && !isLoadingCamera && !webcamError && (
+              <div
+                className="absolute"
+                style={{
+                  left: `${framingMaskFrame.left * 100}%`,
+                  top: `${framingMaskFrame.top * 100}%`,
+                  width: `${framingMaskFrame.width * 100}%`,
+                  height: `${framingMaskFrame.height * 100}%`,
+                }}
+              >
+                <PipInset
+                  stream={pipStream.stream}
+                  videoRef={pipVideoRef}
+                  layout={pipLayout}
+                  onChange={setPipLayout}
+                  isLocked={isCapturingPhoto || intervalCapture.isRunning || motionCapture.isRunning}
+                />
+              </div>
+            )}
+
+            {streamResolution && stream && !isLoadingCamera && !webcamError && (
+              <div
+                className={cn(
+                  "absolute top-2 left-2 z-20 max-w-[60%] truncate rounded-md px-2 py-1 text-xs font-medium backdrop-blur-sm",
+                  isUpscaling ? "bg-destructive/80 text-destructive-foreground" : "bg-black/50 text-white"
+                )}
+              >
+                {videoSource === 'screen' ? 'Screen' : (activeCameraLabel ?? 'Camera')} {streamResolution.width}x{streamResolution.height}
+                {isUpscaling && ` · upscaling to ${settings.width}x${settings.height}`}
+              </div>
+            )}
+
+            {clipRecorder.isRecording && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 rounded-md bg-destructive/80 px-3 py-1 text-xs font-medium text-destructive-foreground tabular-nums">
+                <span className="h-2 w-2 rounded-full bg-white animate-pulse" />
+                REC {formatDuration(clipRecorder.elapsedMs)} · {(clipRecorder.recordedBytes / (1024 * 1024)).toFixed(1)}{maxClipSizeMB > 0 && ` / ${maxClipSizeMB}`} MB
+              </div>
+            )}
+
+            {motionCapture.isRunning && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 rounded-md bg-destructive/80 px-3 py-1 text-xs font-medium text-destructive-foreground tabular-nums">
+                <span className="h-2 w-2 rounded-full bg-white animate-pulse" />
+                Watching · {motionCapture.shotCount}/{motionMaxShots} shots · motion {(motionCapture.motionLevel * 100).toFixed(1)}%
+                {motionCapture.lastTriggeredAt && ` · last at ${format(motionCapture.lastTriggeredAt, 'HH:mm:ss')}`}
+              </div>
+            )}
+
+            {intervalCapture.isRunning && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 rounded-md bg-destructive/80 px-3 py-1 text-xs font-medium text-destructive-foreground">
+                <span className="h-2 w-2 rounded-full bg-white animate-pulse" />
+                Interval · {intervalCapture.frames.length} shot{intervalCapture.frames.length === 1 ? '' : 's'}
+                {intervalCapture.nextShotAt && ` · next at ${format(intervalCapture.nextShotAt, 'HH:mm:ss')}`}
+              </div>
+            )}
             
-            {(isLoadingCamera || (isCapturingPhoto && !webcamError)) && (
+            {liveCaptureProgress && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 rounded-md bg-destructive/80 px-3 py-1 text-xs font-medium text-destructive-foreground tabular-nums">
+                <span className="h-2 w-2 rounded-full bg-white animate-pulse" />
+                {liveCaptureProgress}
+              </div>
+            )}
+
+            {(isLoadingCamera || (isCapturingPhoto && !liveCaptureProgress && !webcamError)) && (
               <div className="absolute inset-0 flex flex-col items-center justify-center text-white bg-black/80 z-10">
                   <Loader2 size={48} className="animate-spin mb-2"/>
-                  <p>{isCapturingPhoto ? 'Processing Image...' : 'Initializing Webcam...'}</p>
+                  <p>
+                    {isCapturingPhoto
+                      ? (captureProgress ?? 'Processing Image...')
+                      : videoSource === 'screen' ? 'Waiting for screen share...' : 'Initializing Webcam...'}
+                  </p>
               </div>
             )}
 
@@ -446,12 +1958,81 @@ function PreviewCapturePageContent() {
           </div>
         )}
 
-        {isPreviewing && imageDataUrl && (
+        {isPreviewing && activeEditor === 'crop' && sourceFrameRef.current && (
+          <CaptureEditor
+            source={sourceFrameRef.current}
+            aspectRatio={settings.fitMode === 'cover' ? settings.width / settings.height : null}
+            initialEdit={captureEdit ?? DEFAULT_CAPTURE_EDIT}
+            isApplying={isApplyingEdit}
+            onApply={handleApplyEdit}
+            onCancel={() => setActiveEditor(null)}
+          />
+        )}
+
+        {isPreviewing && activeEditor === 'adjust' && outputBaseRef.current && (
+          <AdjustmentEditor
+            source={outputBaseRef.current}
+            initialAdjustments={imageAdjustments}
+            isApplying={isApplyingEdit}
+            onApply={handleApplyAdjustments}
+            onCancel={() => setActiveEditor(null)}
+          />
+        )}
+
+        {isPreviewing && burstFrames.length > 0 && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={burstFrames.find(frame => frame.id === focusedBurstId)?.previewUrl ?? burstFrames[0].previewUrl}
+            alt="Burst frame preview"
+            className="object-contain max-w-full rounded-none md:rounded-lg shadow-2xl"
+            style={{ maxHeight: 'calc(100vh - 220px)' }}
+          />
+        )}
+
+        {isPreviewing && intervalCapture.frames.length > 0 && focusedIntervalUrl && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={focusedIntervalUrl}
+            alt="Interval frame preview"
+            className="object-contain max-w-full rounded-none md:rounded-lg shadow-2xl"
+            style={{ maxHeight: 'calc(100vh - 220px)' }}
+          />
+        )}
+
+        {isPreviewing && recordedGif && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={recordedGif.url}
+            alt="Animated GIF preview"
+            className="object-contain max-w-full rounded-none md:rounded-lg shadow-2xl"
+            style={{ maxHeight: 'calc(100vh - 160px)' }}
+          />
+        )}
+
+        {isPreviewing && recordedClip && (
+          <video
+            src={recordedClip.url}
+            controls
+            autoPlay
+            loop
+            playsInline
+            className="object-contain max-w-full rounded-none md:rounded-lg shadow-2xl"
+            style={{ maxHeight: 'calc(100vh - 160px)' }}
+          />
+        )}
+
+        {isPreviewing && !isEditing && imageDataUrl && lastCaptureInfo && (
+          <div className="absolute top-2 left-2 z-20 rounded-md bg-black/50 px-2 py-1 text-xs font-medium text-white backdrop-blur-sm">
+            {STILL_CAPTURE_METHODS[lastCaptureInfo.method].label} {lastCaptureInfo.width}x{lastCaptureInfo.height}
+          </div>
+        )}
+
+        {isPreviewing && !isEditing && imageDataUrl && (
            <Image
               src={imageDataUrl}
               alt="Captured preview"
-              width={settings.width}
-              height={settings.height}
+              width={imageSize?.width ?? settings.width}
+              height={imageSize?.height ?? settings.height}
               className="object-contain rounded-none md:rounded-lg shadow-2xl"
               style={{maxWidth: '100%', maxHeight: 'calc(100vh - 0px)'}} 
               data-ai-hint="user capture preview"
@@ -460,51 +2041,664 @@ function PreviewCapturePageContent() {
         )}
       </div>
 
-      <div className="absolute bottom-6 md:bottom-10 inset-x-0 z-40 flex items-center justify-center px-4">
-        <div className="relative flex items-center justify-center bg-black/50 backdrop-blur-md p-2 md:p-3 rounded-2xl shadow-xl space-x-2 md:space-x-3">
-          {!isPreviewing && stream && hasCameraPermission === true && !webcamError && !isLoadingCamera && (
-            <>
-              {availableCameras.length > 1 && (
+      {countdown.remaining !== null && (
+        <CountdownOverlay
+          remaining={countdown.remaining}
+          label={captureMode === 'booth' && liveCaptureProgress ? liveCaptureProgress : "Get ready..."}
+          onCancel={countdown.cancel}
+        />
+      )}
+
+      {!isEditing && (
+      <div className="absolute bottom-6 md:bottom-10 inset-x-0 z-40 flex flex-col items-center justify-center gap-2 px-4">
+        {!isPreviewing && captureMode === 'scan' && scanResults.length > 0 && (
+          <ScanResults
+            results={scanResults}
+            filenameValue={scanResults.find(r => toFilenamePrefix(r.value) === scannedFilenamePrefix)?.value ?? null}
+            onUseAsFilename={(value) => {
+              const prefix = toFilenamePrefix(value);
+              setScannedFilenamePrefix(current => (current === prefix ? null : prefix));
+            }}
+          />
+        )}
+        {!isPreviewing && settings.caption.enabled && stream && hasCameraPermission === true && !webcamError && !isLoadingCamera && (
+          <div className="flex items-center gap-2 bg-black/50 backdrop-blur-md px-2 py-1 rounded-xl text-sm">
+            <Label htmlFor="captionNote" className="text-xs text-white/80 ml-1">Caption Note</Label>
+            <Input
+              id="captionNote"
+              value={captionNote ?? settings.caption.note}
+              onChange={(e) => setCaptionNote(e.target.value)}
+              className="h-7 w-48 bg-white/10 border-white/30 text-white"
+              placeholder="Added to {note}"
+            />
+            {captionUsesLocation(settings.caption.template) && (
+              <span className="text-xs text-white/70" title={geolocation.error ?? undefined}>
+                {geolocation.location ?? (geolocation.error ? 'Location unavailable' : 'Locating...')}
+              </span>
+            )}
+          </div>
+        )}
+        {scannedFilenamePrefix && (
+          <div className="flex items-center gap-1 bg-black/50 backdrop-blur-md pl-3 pr-1 py-1 rounded-full text-xs text-white">
+            <FileSignature className="h-3.5 w-3.5 flex-shrink-0" />
+            <span className="max-w-[16rem] truncate">Next filename: <span className="font-mono">{scannedFilenamePrefix}</span></span>
+            <Button
+              onClick={() => setScannedFilenamePrefix(null)}
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-white hover:bg-white/20"
+              aria-label="Clear scanned filename"
+            >
+              <XCircle size={14} />
+            </Button>
+          </div>
+        )}
+        {!isPreviewing && stream && hasCameraPermission === true && !webcamError && !isLoadingCamera && (
+          <div className="flex flex-wrap items-center justify-center gap-2 bg-black/50 backdrop-blur-md px-2 py-1 rounded-xl text-sm">
+            {(settings.format === 'gif' ? GIF_FORMAT_CAPTURE_MODES : CAPTURE_MODE_KEYS_ORDERED).map(mode => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setCaptureMode(mode)}
+                disabled={isCapturingPhoto || countdown.isRunning || intervalCapture.isRunning || motionCapture.isRunning || clipRecorder.isRecording}
+                className={cn(
+                  "px-3 py-1 rounded-lg font-medium transition-colors",
+                  captureMode === mode ? 'bg-accent text-accent-foreground' : 'text-white/80 hover:bg-white/20'
+                )}
+                aria-pressed={captureMode === mode}
+              >
+                {CAPTURE_MODES[mode]}
+              </button>
+            ))}
+            {captureMode !== 'booth' && (
+              <Select value={timerOption} onValueChange={(value) => setTimerOption(value as TimerOption)} disabled={isCapturingPhoto || countdown.isRunning}>
+                <SelectTrigger className="h-7 w-28 ml-2 bg-white/10 border-white/30 text-white" aria-label="Self-timer">
+                  <Timer className="h-4 w-4 mr-1 flex-shrink-0" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMER_OPTION_KEYS_ORDERED.map(option => (
+                    <SelectItem key={option} value={option}>{TIMER_OPTIONS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {captureMode !== 'booth' && timerOption === 'custom' && (
+              <Input
+                type="number"
+                min="1"
+                max={MAX_TIMER_SECONDS}
+                value={customTimerSeconds}
+                onChange={(e) => {
+                  const val = parseInt(e.target.value, 10);
+                  setCustomTimerSeconds(isNaN(val) ? 1 : Math.min(MAX_TIMER_SECONDS, Math.max(1, val)));
+                }}
+                className="h-7 w-16 bg-white/10 border-white/30 text-white"
+                aria-label="Custom timer seconds"
+                disabled={countdown.isRunning}
+              />
+            )}
+            {(timerOption !== 'off' || captureMode === 'booth') && (
+              <Button
+                onClick={() => setIsTimerBeepEnabled(enabled => !enabled)}
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-white hover:bg-white/20"
+                aria-label={isTimerBeepEnabled ? 'Mute timer beep' : 'Unmute timer beep'}
+                aria-pressed={isTimerBeepEnabled}
+              >
+                {isTimerBeepEnabled ? <Volume2 size={16} /> : <VolumeX size={16} />}
+              </Button>
+            )}
+            {captureMode === 'photo' && stillSupport && (
+              <>
+                <Select
+                  value={stillOptions.resolution}
+                  onValueChange={(value) => setStillOptions(prev => ({ ...prev, resolution: value as StillResolution }))}
+                  disabled={isCapturingPhoto}
+                >
+                  <SelectTrigger className="h-7 w-36 ml-2 bg-white/10 border-white/30 text-white" aria-label="Photo resolution">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STILL_RESOLUTION_KEYS_ORDERED.map(resolution => (
+                      <SelectItem key={resolution} value={resolution}>
+                        {STILL_RESOLUTIONS[resolution].label}
+                        {resolution === 'max' && stillSupport.maxWidth && stillSupport.maxHeight && ` (${stillSupport.maxWidth}x${stillSupport.maxHeight})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {stillSupport.fillLightModes.length > 0 && (
+                  <Select
+                    value={stillOptions.fillLightMode ?? 'default'}
+                    onValueChange={(value) => setStillOptions(prev => ({ ...prev, fillLightMode: value === 'default' ? null : value as FillLightMode }))}
+                    disabled={isCapturingPhoto}
+                  >
+                    <SelectTrigger className="h-7 w-28 bg-white/10 border-white/30 text-white" aria-label="Fill light">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Flash Default</SelectItem>
+                      {stillSupport.fillLightModes.map(mode => (
+                        <SelectItem key={mode} value={mode}>{FILL_LIGHT_MODES[mode]?.label ?? mode}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {stillSupport.canToggleRedEye && (
+                  <>
+                    <Switch
+                      id="redEyeReduction"
+                      checked={stillOptions.redEyeReduction}
+                      onCheckedChange={(checked) => setStillOptions(prev => ({ ...prev, redEyeReduction: checked }))}
+                      disabled={isCapturingPhoto}
+                    />
+                    <Label htmlFor="redEyeReduction" className="text-xs text-white/80">Red-eye</Label>
+                  </>
+                )}
+              </>
+            )}
+            {captureMode === 'gif' && (
+              <>
+                <Label htmlFor="gifFrameCount" className="text-xs text-white/80 ml-2">Frames</Label>
+                <Input
+                  id="gifFrameCount"
+                  type="number"
+                  min="2"
+                  max={MAX_GIF_FRAMES}
+                  value={gifFrameCount}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setGifFrameCount(isNaN(val) ? 2 : Math.min(MAX_GIF_FRAMES, Math.max(2, val)));
+                  }}
+                  className="h-7 w-16 bg-white/10 border-white/30 text-white"
+                />
+                <Label htmlFor="gifDelay" className="text-xs text-white/80">Delay (ms)</Label>
+                <Input
+                  id="gifDelay"
+                  type="number"
+                  min="20"
+                  step="10"
+                  value={gifOptions.delayMs}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setGifOptions(prev => ({ ...prev, delayMs: isNaN(val) ? 20 : Math.max(20, val) }));
+                  }}
+                  className="h-7 w-20 bg-white/10 border-white/30 text-white"
+                />
+                <Label htmlFor="gifLoop" className="text-xs text-white/80">Loops</Label>
+                <Input
+                  id="gifLoop"
+                  type="number"
+                  min="0"
+                  value={gifOptions.loopCount}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setGifOptions(prev => ({ ...prev, loopCount: isNaN(val) ? 0 : Math.max(0, val) }));
+                  }}
+                  className="h-7 w-16 bg-white/10 border-white/30 text-white"
+                  title="0 loops forever"
+                />
+                <Select
+                  value={String(gifOptions.maxColors)}
+                  onValueChange={(value) => setGifOptions(prev => ({ ...prev, maxColors: parseInt(value, 10) }))}
+                >
+                  <SelectTrigger className="h-7 w-28 bg-white/10 border-white/30 text-white" aria-label="Colors">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GIF_COLOR_OPTIONS.map(colors => (
+                      <SelectItem key={colors} value={String(colors)}>{colors} colors</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={gifOptions.dithering}
+                  onValueChange={(value) => setGifOptions(prev => ({ ...prev, dithering: value as GifDithering }))}
+                >
+                  <SelectTrigger className="h-7 w-36 bg-white/10 border-white/30 text-white" aria-label="Dithering">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GIF_DITHERING_KEYS_ORDERED.map(key => (
+                      <SelectItem key={key} value={key}>{GIF_DITHERING_OPTIONS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1">
+                  <Switch id="gifBoomerang" checked={isGifBoomerang} onCheckedChange={setIsGifBoomerang} />
+                  <Label htmlFor="gifBoomerang" className="text-xs text-white/80">Boomerang</Label>
+                </div>
+              </>
+            )}
+            {captureMode === 'video' && (
+              <>
+                <Select value={videoFormatId} onValueChange={setVideoFormatId} disabled={clipRecorder.isRecording || videoFormats.length === 0}>
+                  <SelectTrigger className="h-7 w-36 ml-2 bg-white/10 border-white/30 text-white" aria-label="Video format">
+                    <SelectValue placeholder="Not supported" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {videoFormats.map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Label htmlFor="maxClipSeconds" className="text-xs text-white/80">Max (s)</Label>
+                <Input
+                  id="maxClipSeconds"
+                  type="number"
+                  min="0"
+                  value={maxClipSeconds}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setMaxClipSeconds(isNaN(val) ? 0 : Math.max(0, val));
+                  }}
+                  className="h-7 w-16 bg-white/10 border-white/30 text-white"
+                  placeholder="0 for no limit"
+                  disabled={clipRecorder.isRecording}
+                />
+                <Label htmlFor="maxClipSizeMB" className="text-xs text-white/80">Max (MB)</Label>
+                <Input
+                  id="maxClipSizeMB"
+                  type="number"
+                  min="0"
+                  value={maxClipSizeMB}
+                  onChange={(e) => {
+                    const val = parseFloat(e.target.value);
+                    setMaxClipSizeMB(isNaN(val) ? 0 : Math.max(0, val));
+                  }}
+                  className="h-7 w-16 bg-white/10 border-white/30 text-white"
+                  placeholder="0 for no limit"
+                  disabled={clipRecorder.isRecording}
+                />
+              </>
+            )}
+            {captureMode === 'interval' && (
+              <>
+                <Label htmlFor="intervalSeconds" className="text-xs text-white/80 ml-2">Every (s)</Label>
+                <Input
+                  id="intervalSeconds"
+                  type="number"
+                  min="1"
+                  value={intervalSeconds}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setIntervalSeconds(isNaN(val) ? 1 : Math.max(1, val));
+                  }}
+                  className="h-7 w-16 bg-white/10 border-white/30 text-white"
+                  disabled={intervalCapture.isRunning}
+                />
+                <Select
+                  value={intervalStopCondition}
+                  onValueChange={(value) => setIntervalStopCondition(value as IntervalStopCondition)}
+                  disabled={intervalCapture.isRunning}
+                >
+                  <SelectTrigger className="h-7 w-28 bg-white/10 border-white/30 text-white" aria-label="Stop after">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">Shots</SelectItem>
+                    <SelectItem value="duration">Minutes</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="1"
+                  value={intervalStopValue}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setIntervalStopValue(isNaN(val) ? 1 : Math.max(1, val));
+                  }}
+                  className="h-7 w-20 bg-white/10 border-white/30 text-white"
+                  aria-label={intervalStopCondition === 'count' ? 'Number of shots' : 'Duration in minutes'}
+                  disabled={intervalCapture.isRunning}
+                />
+              </>
+            )}
+            {captureMode === 'document' && (
+              <>
+                <Select value={documentPageSize} onValueChange={(value) => setDocumentPageSize(value as PageSize)} disabled={isCapturingPhoto}>
+                  <SelectTrigger className="h-7 w-28 ml-2 bg-white/10 border-white/30 text-white" aria-label="Page size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAGE_SIZE_KEYS_ORDERED.map(pageSize => (
+                      <SelectItem key={pageSize} value={pageSize}>{PAGE_SIZES[pageSize].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={documentCleanup} onValueChange={(value) => setDocumentCleanup(value as DocumentCleanup)} disabled={isCapturingPhoto}>
+                  <SelectTrigger className="h-7 w-32 bg-white/10 border-white/30 text-white" aria-label="Cleanup">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DOCUMENT_CLEANUP_KEYS_ORDERED.map(cleanup => (
+                      <SelectItem key={cleanup} value={cleanup}>{DOCUMENT_CLEANUPS[cleanup].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button
-                  onClick={handleSwitchCamera}
+                  onClick={() => setIsDocumentAutoDetect(enabled => !enabled)}
                   variant="ghost"
-                  size="icon" 
-                  className="text-white hover:bg-white/20 w-12 h-12 md:w-14 md:h-14"
+                  className={cn("h-7 px-2 text-xs text-white hover:bg-white/20", { 'bg-white/20': isDocumentAutoDetect })}
+                  aria-pressed={isDocumentAutoDetect}
                   disabled={isCapturingPhoto}
-                  aria-label="Switch Camera"
                 >
-                  <SwitchCamera size={22} />
+                  {isDocumentAutoDetect ? (isDocumentDetected ? 'Auto: Page Found' : 'Auto: Searching...') : 'Auto-Detect'}
                 </Button>
+              </>
+            )}
+            {captureMode === 'booth' && (
+              <>
+                <Select
+                  value={boothOptions.layout}
+                  onValueChange={(value) => setBoothOptions(prev => ({ ...prev, layout: value as CollageLayout }))}
+                  disabled={isCapturingPhoto}
+                >
+                  <SelectTrigger className="h-7 w-40 ml-2 bg-white/10 border-white/30 text-white" aria-label="Collage layout">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COLLAGE_LAYOUT_KEYS_ORDERED.map(layout => (
+                      <SelectItem key={layout} value={layout}>{COLLAGE_LAYOUTS[layout].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Label htmlFor="boothCountdown" className="text-xs text-white/80">Countdown</Label>
+                <Input
+                  id="boothCountdown"
+                  type="number"
+                  min="1"
+                  max={MAX_BOOTH_COUNTDOWN_SECONDS}
+                  value={boothCountdownSeconds}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setBoothCountdownSeconds(isNaN(val) ? 1 : Math.min(MAX_BOOTH_COUNTDOWN_SECONDS, Math.max(1, val)));
+                  }}
+                  className="h-7 w-14 bg-white/10 border-white/30 text-white"
+                  disabled={isCapturingPhoto}
+                />
+                <Label htmlFor="boothGutter" className="text-xs text-white/80">Gutter %</Label>
+                <Input
+                  id="boothGutter"
+                  type="number"
+                  min="0"
+                  max={MAX_COLLAGE_GUTTER_PERCENT}
+                  value={boothOptions.gutterPercent}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setBoothOptions(prev => ({ ...prev, gutterPercent: isNaN(val) ? 0 : Math.min(MAX_COLLAGE_GUTTER_PERCENT, Math.max(0, val)) }));
+                  }}
+                  className="h-7 w-14 bg-white/10 border-white/30 text-white"
+                  disabled={isCapturingPhoto}
+                />
+                <Input
+                  type="color"
+                  value={boothOptions.backgroundColor}
+                  onChange={(e) => setBoothOptions(prev => ({ ...prev, backgroundColor: e.target.value }))}
+                  className="h-7 w-9 p-0.5 bg-white/10 border-white/30 cursor-pointer"
+                  aria-label="Collage background color"
+                  disabled={isCapturingPhoto}
+                />
+                <Input
+                  value={boothOptions.footerText}
+                  onChange={(e) => setBoothOptions(prev => ({ ...prev, footerText: e.target.value }))}
+                  placeholder="Footer text"
+                  className="h-7 w-36 bg-white/10 border-white/30 text-white"
+                  aria-label="Collage footer text"
+                  disabled={isCapturingPhoto}
+                />
+              </>
+            )}
+            {captureMode === 'scan' && (
+              <>
+                <span className="flex items-center gap-1 ml-2 text-xs text-white/80">
+                  <ScanLine className="h-4 w-4" /> QR, EAN-13, Code 128
+                </span>
+                <Button
+                  onClick={() => setIsScanAutoFilename(enabled => !enabled)}
+                  variant="ghost"
+                  className={cn("h-7 px-2 text-xs text-white hover:bg-white/20", { 'bg-white/20': isScanAutoFilename })}
+                  aria-pressed={isScanAutoFilename}
+                  title="Use each new scan as the filename for the next capture"
+                >
+                  {isScanAutoFilename ? 'Name from Scan: On' : 'Name from Scan: Off'}
+                </Button>
+                <Button
+                  onClick={handleScanStill}
+                  variant="ghost"
+                  className="h-7 px-2 text-xs text-white hover:bg-white/20"
+                  disabled={isCapturingPhoto || countdown.isRunning}
+                  title="Scan once at full resolution, for small or dense codes"
+                >
+                  Scan Still
+                </Button>
+                {scanResults.length > 0 && (
+                  <Button onClick={() => setScanResults([])} variant="ghost" className="h-7 px-2 text-xs text-white hover:bg-white/20">
+                    Clear
+                  </Button>
+                )}
+              </>
+            )}
+            {captureMode === 'motion' && (
+              <>
+                <Label htmlFor="motionSensitivity" className="text-xs text-white/80 ml-2">Sensitivity</Label>
+                <Slider
+                  id="motionSensitivity"
+                  min={MIN_MOTION_SENSITIVITY}
+                  max={MAX_MOTION_SENSITIVITY}
+                  step={1}
+                  value={[motionSensitivity]}
+                  onValueChange={(values) => setMotionSensitivity(values[0])}
+                  className="w-24"
+                  disabled={motionCapture.isRunning}
+                />
+                <Label htmlFor="motionCooldown" className="text-xs text-white/80">Cooldown (s)</Label>
+                <Input
+                  id="motionCooldown"
+                  type="number"
+                  min="0"
+                  value={motionCooldownSeconds}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setMotionCooldownSeconds(isNaN(val) ? 0 : Math.max(0, val));
+                  }}
+                  className="h-7 w-16 bg-white/10 border-white/30 text-white"
+                  disabled={motionCapture.isRunning}
+                />
+                <Label htmlFor="motionMaxShots" className="text-xs text-white/80">Max shots</Label>
+                <Input
+                  id="motionMaxShots"
+                  type="number"
+                  min="1"
+                  value={motionMaxShots}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setMotionMaxShots(isNaN(val) ? 1 : Math.max(1, val));
+                  }}
+                  className="h-7 w-16 bg-white/10 border-white/30 text-white"
+                  disabled={motionCapture.isRunning}
+                />
+                {motionRegion && (
+                  <Button
+                    onClick={() => setMotionRegion(null)}
+                    variant="ghost"
+                    className="h-7 px-2 text-xs text-white hover:bg-white/20"
+                    disabled={motionCapture.isRunning}
+                  >
+                    Whole Frame
+                  </Button>
+                )}
+              </>
+            )}
+            {captureMode === 'burst' && (
+              <>
+                <Label htmlFor="burstCount" className="text-xs text-white/80 ml-2">Frames</Label>
+                <Input
+                  id="burstCount"
+                  type="number"
+                  min="2"
+                  max={MAX_BURST_FRAMES}
+                  value={burstCount}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setBurstCount(isNaN(val) ? 2 : Math.min(MAX_BURST_FRAMES, Math.max(2, val)));
+                  }}
+                  className="h-7 w-16 bg-white/10 border-white/30 text-white"
+                  disabled={isCapturingPhoto}
+                />
+                <Label htmlFor="burstInterval" className="text-xs text-white/80">Interval (ms)</Label>
+                <Input
+                  id="burstInterval"
+                  type="number"
+                  min="0"
+                  step="50"
+                  value={burstIntervalMs}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    setBurstIntervalMs(isNaN(val) ? 0 : Math.max(0, val));
+                  }}
+                  className="h-7 w-20 bg-white/10 border-white/30 text-white"
+                  disabled={isCapturingPhoto}
+                />
+              </>
+            )}
+          </div>
+        )}
+
+        {isPreviewing && burstFrames.length > 0 && (
+          <div className="max-w-full bg-black/50 backdrop-blur-md rounded-xl p-1">
+            <Filmstrip
+              frames={burstFrames}
+              selectedIds={selectedBurstIds}
+              focusedId={focusedBurstId}
+              highlightedId={findSharpestFrame(burstFrames)?.id}
+              highlightLabel="Sharpest"
+              onFocus={setFocusedBurstId}
+              onToggle={toggleBurstSelection}
+            />
+          </div>
+        )}
+
+        {intervalCapture.frames.length > 0 && (
+          <div className="max-w-full bg-black/50 backdrop-blur-md rounded-xl p-1">
+            <Filmstrip
+              frames={intervalCapture.frames.map(frame => ({ ...frame, caption: format(frame.capturedAt, 'HH:mm:ss') }))}
+              selectedIds={intervalCapture.frames.filter(frame => !excludedIntervalIds.includes(frame.id)).map(frame => frame.id)}
+              focusedId={focusedIntervalId}
+              onFocus={setFocusedIntervalId}
+              onToggle={toggleIntervalFrame}
+            />
+          </div>
+        )}
+
+        <div className="relative flex items-center justify-center bg-black/50 backdrop-blur-md p-2 md:p-3 rounded-2xl shadow-xl space-x-2 md:space-x-3">
+          {!isPreviewing && stream && hasCameraPermission === true && !webcamError && !isLoadingCamera && (
+            <>
+              {videoSource === 'camera' && (availableCameras.length > 1 || isMobile) ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon" 
+                      className="text-white hover:bg-white/20 w-12 h-12 md:w-14 md:h-14"
+                      disabled={isCapturingPhoto || intervalCapture.isRunning || motionCapture.isRunning || clipRecorder.isRecording}
+                      aria-label="Choose Camera"
+                      title={activeCameraLabel ?? 'Choose Camera'}
+                    >
+                      <SwitchCamera size={22} />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent side="top" align="start" className="max-w-xs">
+                    <DropdownMenuLabel>Camera</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                      value={activeCameraId ?? ''}
+                      onValueChange={(deviceId) => handleSelectCamera({ kind: 'device', deviceId })}
+                    >
+                      {availableCameras.map((camera, index) => (
+                        <DropdownMenuRadioItem key={camera.deviceId || index} value={camera.deviceId} className="truncate">
+                          {camera.label || `Camera ${index + 1}`}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                    {isMobile && (
+                      <>
+                        <DropdownMenuSeparator />
+                        {FACING_MODE_KEYS_ORDERED.map((facingMode) => (
+                          <DropdownMenuItem key={facingMode} onSelect={() => handleSelectCamera({ kind: 'facing', facingMode })}>
+                            {FACING_MODES[facingMode].label}
+                          </DropdownMenuItem>
+                        ))}
+                      </>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                <div className="w-12 h-12 md:w-14 md:h-14 flex-shrink-0 opacity-0 pointer-events-none"></div>
               )}
 
               <Button
-                onClick={handleCapture}
+                onClick={
+                  intervalCapture.isRunning ? intervalCapture.stop
+                    : motionCapture.isRunning ? motionCapture.stop
+                    : clipRecorder.isRecording ? clipRecorder.stop
+                    : handleShutter
+                }
                 variant="default"
                 size="icon" 
-                className="bg-accent hover:bg-accent/90 text-accent-foreground rounded-full w-16 h-16 md:w-20 md:h-20 p-0 flex items-center justify-center shadow-lg"
-                disabled={isCapturingPhoto}
-                aria-label="Capture Photo"
+                className={cn(
+                  "rounded-full w-16 h-16 md:w-20 md:h-20 p-0 flex items-center justify-center shadow-lg",
+                  intervalCapture.isRunning || motionCapture.isRunning || clipRecorder.isRecording
+                    ? "bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+                    : "bg-accent hover:bg-accent/90 text-accent-foreground"
+                )}
+                disabled={isCapturingPhoto || isLoadingWatermarkLogo || countdown.isRunning}
+                title={isLoadingWatermarkLogo ? 'Loading watermark logo...' : undefined}
+                aria-label={
+                  intervalCapture.isRunning ? 'Stop Interval Capture'
+                    : motionCapture.isRunning ? 'Stop Motion Capture'
+                    : clipRecorder.isRecording ? 'Stop Recording'
+                    : captureMode === 'document' ? 'Capture Document'
+                    : captureMode === 'booth' ? 'Start Photo Booth'
+                    : captureMode === 'burst' ? 'Capture Burst'
+                    : captureMode === 'interval' ? 'Start Interval Capture'
+                    : captureMode === 'motion' ? 'Start Motion Capture'
+                    : captureMode === 'video' ? 'Start Recording'
+                    : captureMode === 'gif' ? 'Record GIF'
+                    : 'Capture Photo'
+                }
               >
-                {isCapturingPhoto ? (
+                {isCapturingPhoto || isLoadingWatermarkLogo ? (
                   <Loader2 className="h-7 w-7 md:h-8 md:h-8 animate-spin" />
+                ) : intervalCapture.isRunning || motionCapture.isRunning || clipRecorder.isRecording ? (
+                  <Square className="h-6 w-6 md:h-7 md:w-7 fill-current" />
+                ) : captureMode === 'video' ? (
+                  <Video className="h-7 w-7 md:h-8 md:h-8" />
                 ) : (
                   <CameraIcon className="h-7 w-7 md:h-8 md:h-8" />
                 )}
               </Button>
               
-              {availableCameras.length > 1 && ( 
-                <div className="w-12 h-12 md:w-14 md:h-14 flex-shrink-0"></div>
-              )}
-               {availableCameras.length <= 1 && ( 
-                <>
-                 <div className="w-12 h-12 md:w-14 md:h-14 flex-shrink-0 opacity-0 pointer-events-none"></div>
-                 <div className="w-12 h-12 md:w-14 md:h-14 flex-shrink-0 opacity-0 pointer-events-none"></div>
-                </>
+              {canCaptureScreen ? (
+                <Button
+                  onClick={handleToggleScreen}
+                  variant="ghost"
+                  size="icon"
+                  className="text-white hover:bg-white/20 w-12 h-12 md:w-14 md:h-14"
+                  disabled={isCapturingPhoto || intervalCapture.isRunning || motionCapture.isRunning || clipRecorder.isRecording}
+                  aria-label={videoSource === 'screen' ? 'Use Camera' : 'Capture Screen, Window or Tab'}
+                  title={videoSource === 'screen' ? 'Use Camera' : 'Screen / Window / Tab'}
+                >
+                  {videoSource === 'screen' ? <CameraIcon size={22} /> : <MonitorUp size={22} />}
+                </Button>
+              ) : (
+                <div className="w-12 h-12 md:w-14 md:h-14 flex-shrink-0 opacity-0 pointer-events-none"></div>
               )}
             </>
           )}
 
-          {isPreviewing && imageDataUrl && (
+          {isPreviewing && (recordedClip || recordedGif) && (
             <>
               <Button onClick={handleRetake} variant="outline" className="text-sm md:text-base px-4 py-2 bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full" disabled={isGeneratingName}>
                 <RefreshCw className="mr-2 h-4 w-4" /> Retake
@@ -515,8 +2709,76 @@ function PreviewCapturePageContent() {
               </Button>
             </>
           )}
+
+          {isPreviewing && intervalCapture.frames.length > 0 && (
+            <>
+              <Button onClick={handleRetake} variant="outline" className="text-sm md:text-base px-4 py-2 bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full" disabled={isGeneratingName || !!exportProgress}>
+                <RefreshCw className="mr-2 h-4 w-4" /> New Session
+              </Button>
+              <Button onClick={handleDownloadIntervalZip} variant="outline" className="text-sm md:text-base px-4 py-2 bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full" disabled={isGeneratingName || !!exportProgress}>
+                <FileArchive className="mr-2 h-4 w-4" /> ZIP
+              </Button>
+              <Input
+                type="number"
+                min="1"
+                max="60"
+                value={timelapseFps}
+                onChange={(e) => {
+                  const val = parseInt(e.target.value, 10);
+                  setTimelapseFps(isNaN(val) ? 1 : Math.min(60, Math.max(1, val)));
+                }}
+                className="h-9 w-16 bg-white/10 border-white/30 text-white"
+                aria-label="Time-lapse frames per second"
+                title="Time-lapse FPS"
+                disabled={!!exportProgress}
+              />
+              <Button onClick={handleExportTimelapse} className="text-base md:text-base px-4 py-2 bg-accent hover:bg-accent/90 text-accent-foreground rounded-full" disabled={isGeneratingName || !!exportProgress}>
+                {exportProgress ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Film className="mr-2 h-5 w-5" />}
+                {exportProgress ?? 'WebM'}
+              </Button>
+            </>
+          )}
+
+          {isPreviewing && burstFrames.length > 0 && (
+            <>
+              <Button onClick={handleRetake} variant="outline" className="text-sm md:text-base px-4 py-2 bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full" disabled={isGeneratingName || !!exportProgress}>
+                <RefreshCw className="mr-2 h-4 w-4" /> Retake
+              </Button>
+              <Button onClick={handleKeepBurstFrames} className="text-base md:text-base px-4 py-2 bg-accent hover:bg-accent/90 text-accent-foreground rounded-full" disabled={isGeneratingName || !!exportProgress || selectedBurstIds.length === 0}>
+                {isGeneratingName || exportProgress ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Check className="mr-2 h-5 w-5" />}
+                {exportProgress ?? (selectedBurstIds.length > 1 ? `Download ${selectedBurstIds.length} Frames as ZIP` : 'Keep Frame')}
+              </Button>
+            </>
+          )}
+
+          {isPreviewing && !isEditing && imageDataUrl && (
+            <>
+              <Button onClick={handleRetake} variant="outline" className="text-sm md:text-base px-4 py-2 bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full" disabled={isGeneratingName}>
+                <RefreshCw className="mr-2 h-4 w-4" /> Retake
+              </Button>
+              <Button onClick={() => setActiveEditor('crop')} variant="outline" className="text-sm md:text-base px-4 py-2 bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full" disabled={isGeneratingName || !sourceFrameRef.current}>
+                <Crop className="mr-2 h-4 w-4" /> Edit
+              </Button>
+              <Button
+                onClick={() => setActiveEditor('adjust')}
+                variant="outline"
+                className={cn(
+                  "text-sm md:text-base px-4 py-2 bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full",
+                  { 'border-accent': !isNeutralAdjustments(imageAdjustments) }
+                )}
+                disabled={isGeneratingName || !outputBaseRef.current}
+              >
+                <SlidersHorizontal className="mr-2 h-4 w-4" /> Adjust
+              </Button>
+              <Button onClick={handleDownload} className="text-base md:text-base px-4 py-2 bg-accent hover:bg-accent/90 text-accent-foreground rounded-full" disabled={isGeneratingName}>
+                {isGeneratingName ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Download className="mr-2 h-5 w-5" />}
+                 Download
+              </Button>
+            </>
+          )}
         </div>
       </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Check, Loader2, Undo2, X } from 'lucide-react';
+import { getDownscaleFactor } from '@/lib/pixsnap/frames';
+import {
+  ADJUSTMENT_SLIDERS,
+  ADJUSTMENT_SLIDER_KEYS_ORDERED,
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  applyAdjustments,
+  type ImageAdjustments,
+} from '@/lib/pixsnap/adjustments';
+
+const PREVIEW_MAX_DIMENSION = 1280;
+
+interface AdjustmentEditorProps {
+  /** The unadjusted output frame. */
+  source: HTMLCanvasElement;
+  initialAdjustments: ImageAdjustments;
+  isApplying?: boolean;
+  onApply: (adjustments: ImageAdjustments) => void;
+  onCancel: () => void;
+}
+
+/** Tone/color sliders with a before/after split view; edits run on a downscaled copy until applied. */
+export default function AdjustmentEditor({ source, initialAdjustments, isApplying, onApply, onCancel }: AdjustmentEditorProps) {
+  const beforeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const afterCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(initialAdjustments);
+  const [comparePosition, setComparePosition] = useState<number>(50);
+
+  const scale = getDownscaleFactor(source.width, source.height, PREVIEW_MAX_DIMENSION);
+
+  useEffect(() => {
+    const canvas = beforeCanvasRef.current;
+    if (!canvas) return;
+    canvas.width = Math.max(1, Math.round(source.width * scale));
+    canvas.height = Math.max(1, Math.round(source.height * scale));
+    canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  }, [source, scale]);
+
+  useEffect(() => {
+    const before = beforeCanvasRef.current;
+    const after = afterCanvasRef.current;
+    if (!before || !after) return;
+    after.width = before.width;
+    after.height = before.height;
+    after.getContext('2d')?.drawImage(before, 0, 0);
+    applyAdjustments(after, adjustments, scale);
+  }, [source, scale, adjustments]);
+
+  const setSlider = (key: keyof ImageAdjustments) => (values: number[]) => {
+    setAdjustments(prev => ({ ...prev, [key]: values[0] }));
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center w-full h-full gap-4 p-4 pb-40">
+      <div className="relative inline-block select-none">
+        <canvas
+          ref={beforeCanvasRef}
+          className="block max-w-full object-contain shadow-2xl"
+          style={{ maxHeight: 'calc(100vh - 380px)' }}
+        />
+        <canvas
+          ref={afterCanvasRef}
+          className="absolute inset-0 w-full h-full"
+          style={{ clipPath: `inset(0 0 0 ${comparePosition}%)` }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${comparePosition}%` }} />
+        <span className="absolute top-2 left-2 rounded bg-black/50 px-2 py-0.5 text-xs text-white">Before</span>
+        <span className="absolute top-2 right-2 rounded bg-black/50 px-2 py-0.5 text-xs text-white">After</span>
+      </div>
+
+      <div className="w-full max-w-xl space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="adjust-compare" className="text-xs text-white/70">Compare</Label>
+          <Slider id="adjust-compare" min={0} max={100} step={1} value={[comparePosition]} onValueChange={(values) => setComparePosition(values[0])} />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+          {ADJUSTMENT_SLIDER_KEYS_ORDERED.map(key => {
+            const slider = ADJUSTMENT_SLIDERS[key];
+            return (
+              <div key={key} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`adjust-${key}`} className="text-sm text-white">{slider.label}</Label>
+                  <span className="text-xs text-white/70 tabular-nums">
+                    {adjustments[key]}{slider.unit ? ` ${slider.unit}` : ''}
+                  </span>
+                </div>
+                <Slider
+                  id={`adjust-${key}`}
+                  min={slider.min}
+                  max={slider.max}
+                  step={slider.step}
+                  value={[adjustments[key]]}
+                  onValueChange={setSlider(key)}
+                  disabled={key === 'sharpenRadius' && adjustments.sharpenAmount === 0}
+                />
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Switch id="adjust-grayscale" checked={adjustments.grayscale} onCheckedChange={(checked) => setAdjustments(prev => ({ ...prev, grayscale: checked }))} />
+            <Label htmlFor="adjust-grayscale" className="text-sm text-white">Grayscale</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="adjust-sepia" checked={adjustments.sepia} onCheckedChange={(checked) => setAdjustments(prev => ({ ...prev, sepia: checked }))} />
+            <Label htmlFor="adjust-sepia" className="text-sm text-white">Sepia</Label>
+          </div>
+        </div>
+      </div>
+
+      <div className="absolute bottom-6 md:bottom-10 inset-x-0 z-40 flex items-center justify-center px-4">
+        <div className="flex flex-wrap items-center justify-center bg-black/50 backdrop-blur-md p-2 md:p-3 rounded-2xl shadow-xl gap-2">
+          <Button onClick={() => setAdjustments(DEFAULT_IMAGE_ADJUSTMENTS)} variant="ghost" size="icon" className="text-white hover:bg-white/20" aria-label="Reset Adjustments">
+            <Undo2 size={20} />
+          </Button>
+          <Button onClick={onCancel} variant="outline" className="text-sm px-4 py-2 bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full" disabled={isApplying}>
+            <X className="mr-2 h-4 w-4" /> Cancel
+          </Button>
+          <Button onClick={() => onApply(adjustments)} className="text-sm px-4 py-2 bg-accent hover:bg-accent/90 text-accent-foreground rounded-full" disabled={isApplying}>
+            {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+            Apply
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { SlidersHorizontal, Undo2 } from 'lucide-react';
+import {
+  CAMERA_CONTROLS,
+  CAMERA_CONTROL_KEYS_ORDERED,
+  applyCameraControls,
+  getCameraControlSupport,
+  getCameraControlValues,
+  hasCameraControls,
+  loadCameraControls,
+  mergeCameraControls,
+  restoreAutoModes,
+  saveCameraControls,
+  type CameraControlKey,
+  type CameraControlSupport,
+  type CameraControlValues,
+} from '@/lib/pixsnap/camera-controls';
+
+interface CameraControlsProps {
+  track: MediaStreamTrack | null;
+  /** Values are remembered per camera under this id. */
+  deviceId: string | null;
+  disabled?: boolean;
+}
+
+/** Popover with the manual controls the active camera track reports; renders nothing when it reports none. */
+export default function CameraControls({ track, deviceId, disabled }: CameraControlsProps) {
+  const { toast } = useToast();
+  const [support, setSupport] = useState<CameraControlSupport | null>(null);
+  const [values, setValues] = useState<CameraControlValues>({});
+  const defaultsRef = useRef<CameraControlValues>({});
+
+  useEffect(() => {
+    if (!track) {
+      setSupport(null);
+      return;
+    }
+    const trackSupport = getCameraControlSupport(track);
+    if (!hasCameraControls(trackSupport)) {
+      setSupport(null);
+      return;
+    }
+    defaultsRef.current = getCameraControlValues(track, trackSupport);
+    const saved = deviceId ? loadCameraControls(deviceId) : {};
+    setSupport(trackSupport);
+    setValues({ ...defaultsRef.current, ...saved });
+    applyCameraControls(track, trackSupport, saved).catch(err => {
+      console.error('Error restoring camera controls:', err);
+    });
+  }, [track, deviceId]);
+
+  if (!track || !support) return null;
+
+  const handleApplyError = (err: any) => {
+    console.error('Error applying camera controls:', err);
+    toast({ title: 'Camera Control Error', description: err?.message || 'The camera rejected that setting.', variant: 'destructive' });
+  };
+
+  const updateValues = (changes: CameraControlValues) => {
+    setValues(prev => ({ ...prev, ...changes }));
+    applyCameraControls(track, support, changes).catch(handleApplyError);
+    // Only what the user touched is remembered, so untouched controls stay automatic next time.
+    if (deviceId) saveCameraControls(deviceId, mergeCameraControls(loadCameraControls(deviceId), changes));
+  };
+
+  const handleReset = async () => {
+    if (deviceId) saveCameraControls(deviceId, null);
+    const { zoom, exposureCompensation, brightness } = defaultsRef.current;
+    setValues(defaultsRef.current);
+    try {
+      await applyCameraControls(track, support, { zoom, exposureCompensation, brightness, torch: support.torch ? false : undefined });
+      await restoreAutoModes(track, support);
+    } catch (err) {
+      handleApplyError(err);
+    }
+  };
+
+  const supportedKeys = CAMERA_CONTROL_KEYS_ORDERED.filter((key): key is CameraControlKey => !!support.ranges[key]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="text-white hover:bg-white/20 rounded-full p-2" disabled={disabled} title="Camera Controls">
+          <SlidersHorizontal size={24} />
+          <span className="sr-only">Camera Controls</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        {supportedKeys.map((key) => {
+          const range = support.ranges[key]!;
+          const value = values[key] ?? range.min;
+          return (
+            <div key={key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`camera-${key}`} className="text-sm">{CAMERA_CONTROLS[key].label}</Label>
+                <span className="text-xs text-muted-foreground tabular-nums">{CAMERA_CONTROLS[key].format(value)}</span>
+              </div>
+              <Slider
+                id={`camera-${key}`}
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={[value]}
+                onValueChange={(newValues) => updateValues({ [key]: newValues[0] })}
+              />
+            </div>
+          );
+        })}
+        {support.torch && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="camera-torch" className="text-sm">Torch</Label>
+            <Switch id="camera-torch" checked={values.torch === true} onCheckedChange={(checked) => updateValues({ torch: checked })} />
+          </div>
+        )}
+        <Button variant="outline" size="sm" className="w-full" onClick={handleReset}>
+          <Undo2 className="mr-2 h-4 w-4" /> Reset to Auto
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
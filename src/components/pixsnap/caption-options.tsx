@@ -0,0 +1,82 @@
+"use client";
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CAPTION_POSITIONS,
+  CAPTION_POSITION_KEYS_ORDERED,
+  type CaptionPosition,
+  type CaptionSettings,
+} from '@/lib/pixsnap/settings';
+import { CAPTION_FIELDS, formatCaption } from '@/lib/pixsnap/caption';
+
+interface CaptionOptionsProps {
+  value: CaptionSettings;
+  onChange: (value: CaptionSettings) => void;
+}
+
+/** Info bar toggle, placement, template and note, with a sample of the rendered text. */
+export default function CaptionOptions({ value, onChange }: CaptionOptionsProps) {
+  const update = (patch: Partial<CaptionSettings>) => onChange({ ...value, ...patch });
+  const sample = formatCaption(value.template, {
+    capturedAt: new Date(),
+    device: 'Camera',
+    note: value.note,
+    location: '51.50735, -0.12776',
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Switch id="captionEnabled" checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        <Label htmlFor="captionEnabled" className="text-sm font-medium">Caption Bar</Label>
+      </div>
+      {value.enabled && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+          <div className="sm:col-span-2">
+            <Label htmlFor="captionTemplate" className="text-sm font-medium">Template</Label>
+            <Input
+              id="captionTemplate"
+              value={value.template}
+              onChange={(e) => update({ template: e.target.value })}
+              className="mt-1 font-mono"
+            />
+            <p className="flex flex-wrap gap-x-2 text-xs text-muted-foreground mt-1">
+              {CAPTION_FIELDS.map(field => (
+                <code key={field.token} title={field.description}>{field.token}</code>
+              ))}
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="captionNote" className="text-sm font-medium">Note</Label>
+            <Input
+              id="captionNote"
+              value={value.note}
+              onChange={(e) => update({ note: e.target.value })}
+              placeholder="e.g. Site 4, north wall"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="captionPosition" className="text-sm font-medium">Position</Label>
+            <Select value={value.position} onValueChange={(position) => update({ position: position as CaptionPosition })}>
+              <SelectTrigger id="captionPosition" className="w-full mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CAPTION_POSITION_KEYS_ORDERED.map(position => (
+                  <SelectItem key={position} value={position}>{CAPTION_POSITIONS[position].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="sm:col-span-2 rounded-md bg-muted px-3 py-2 text-xs font-mono truncate" title={sample}>
+            {sample || 'The caption is empty.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Check, FlipHorizontal, FlipVertical, Loader2, RotateCcw, RotateCw, Undo2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_CAPTURE_EDIT,
+  MAX_STRAIGHTEN_DEGREES,
+  clampCrop,
+  getCenteredCrop,
+  getEditBounds,
+  renderEdit,
+  type CaptureEdit,
+  type QuarterTurn,
+  type Rect,
+} from '@/lib/pixsnap/transform';
+
+const PREVIEW_MAX_DIMENSION = 1280;
+const MIN_CROP_SIZE = 32;
+
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startCrop: Rect;
+  /** Edit-bounds pixels per on-screen pixel. */
+  scale: number;
+}
+
+interface CaptureEditorProps {
+  source: HTMLCanvasElement;
+  /** Output width / height; the crop is locked to this ratio. Null leaves the crop free, for fit modes that don't crop. */
+  aspectRatio: number | null;
+  initialEdit: CaptureEdit;
+  isApplying?: boolean;
+  onApply: (edit: CaptureEdit) => void;
+  onCancel: () => void;
+}
+
+export default function CaptureEditor({ source, aspectRatio, initialEdit, isApplying, onApply, onCancel }: CaptureEditorProps) {
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const cropAreaRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const [edit, setEdit] = useState<CaptureEdit>(initialEdit);
+  const bounds = useMemo(
+    () => getEditBounds(source.width, source.height, edit),
+    [source, edit.rotation, edit.straighten] // eslint-disable-line react-hooks/exhaustive-deps
+  );
+  const crop = edit.crop
+    ? clampCrop(edit.crop, bounds)
+    : aspectRatio ? getCenteredCrop(bounds, aspectRatio) : { x: 0, y: 0, width: bounds.width, height: bounds.height };
+
+  useEffect(() => {
+    const canvas = previewCanvasRef.current;
+    if (!canvas) return;
+    const scale = Math.min(1, PREVIEW_MAX_DIMENSION / Math.max(bounds.width, bounds.height));
+    canvas.width = Math.max(1, Math.round(bounds.width * scale));
+    canvas.height = Math.max(1, Math.round(bounds.height * scale));
+    renderEdit(canvas, source, source.width, source.height, edit, { x: 0, y: 0, width: bounds.width, height: bounds.height });
+  }, [source, bounds, edit.rotation, edit.straighten, edit.flipH, edit.flipV]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const rotateBy = (delta: 90 | -90) => {
+    setEdit(prev => ({ ...prev, rotation: (((prev.rotation + delta) % 360 + 360) % 360) as QuarterTurn, crop: null }));
+  };
+
+  const handleStraightenChange = (values: number[]) => {
+    setEdit(prev => ({ ...prev, straighten: values[0] }));
+  };
+
+  const handleReset = () => {
+    setEdit(DEFAULT_CAPTURE_EDIT);
+  };
+
+  const startDrag = (mode: DragMode) => (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (!cropAreaRef.current) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const areaRect = cropAreaRef.current.getBoundingClientRect();
+    dragRef.current = {
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      startCrop: crop,
+      scale: bounds.width / areaRect.width,
+    };
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (e.clientX - drag.startX) * drag.scale;
+    const dy = (e.clientY - drag.startY) * drag.scale;
+    const start = drag.startCrop;
+
+    if (drag.mode === 'move') {
+      const x = Math.min(Math.max(0, start.x + dx), bounds.width - start.width);
+      const y = Math.min(Math.max(0, start.y + dy), bounds.height - start.height);
+      setEdit(prev => ({ ...prev, crop: { ...start, x, y } }));
+      return;
+    }
+
+    // Resize from a corner while the opposite corner stays anchored.
+    const dirX = drag.mode === 'ne' || drag.mode === 'se' ? 1 : -1;
+    const dirY = drag.mode === 'sw' || drag.mode === 'se' ? 1 : -1;
+    const anchorX = dirX > 0 ? start.x : start.x + start.width;
+    const anchorY = dirY > 0 ? start.y : start.y + start.height;
+    const movingX = (dirX > 0 ? start.x + start.width : start.x) + dx;
+    const movingY = (dirY > 0 ? start.y + start.height : start.y) + dy;
+
+    const maxWidth = dirX > 0 ? bounds.width - anchorX : anchorX;
+    const maxHeight = dirY > 0 ? bounds.height - anchorY : anchorY;
+    let width: number;
+    let height: number;
+    if (aspectRatio) {
+      width = Math.max((movingX - anchorX) * dirX, (movingY - anchorY) * dirY * aspectRatio);
+      width = Math.min(width, maxWidth, maxHeight * aspectRatio);
+      width = Math.max(width, Math.min(MIN_CROP_SIZE, maxWidth, maxHeight * aspectRatio));
+      height = width / aspectRatio;
+    } else {
+      width = Math.max(Math.min((movingX - anchorX) * dirX, maxWidth), Math.min(MIN_CROP_SIZE, maxWidth));
+      height = Math.max(Math.min((movingY - anchorY) * dirY, maxHeight), Math.min(MIN_CROP_SIZE, maxHeight));
+    }
+
+    setEdit(prev => ({
+      ...prev,
+      crop: {
+        x: dirX > 0 ? anchorX : anchorX - width,
+        y: dirY > 0 ? anchorY : anchorY - height,
+        width,
+        height,
+      },
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleApply = () => {
+    onApply({ ...edit, crop });
+  };
+
+  const handles: { mode: DragMode; className: string }[] = [
+    { mode: 'nw', className: '-left-2 -top-2 cursor-nwse-resize' },
+    { mode: 'ne', className: '-right-2 -top-2 cursor-nesw-resize' },
+    { mode: 'sw', className: '-left-2 -bottom-2 cursor-nesw-resize' },
+    { mode: 'se', className: '-right-2 -bottom-2 cursor-nwse-resize' },
+  ];
+
+  return (
+    <div className="flex flex-col items-center justify-center w-full h-full gap-4 p-4 pb-40">
+      <div
+        ref={cropAreaRef}
+        className="relative inline-block select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <canvas
+          ref={previewCanvasRef}
+          className="block max-w-full object-contain shadow-2xl"
+          style={{ maxHeight: 'calc(100vh - 260px)' }}
+        />
+        <div className="absolute inset-0 overflow-hidden pointer-events-none">
+          <div
+            className="absolute border-2 border-white pointer-events-auto cursor-move"
+            style={{
+              left: `${(crop.x / bounds.width) * 100}%`,
+              top: `${(crop.y / bounds.height) * 100}%`,
+              width: `${(crop.width / bounds.width) * 100}%`,
+              height: `${(crop.height / bounds.height) * 100}%`,
+              boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+            }}
+            onPointerDown={startDrag('move')}
+          >
+            <div className="absolute inset-0 grid grid-cols-3 grid-rows-3 pointer-events-none">
+              {Array.from({ length: 9 }).map((_, i) => (
+                <div key={i} className="border border-white/20" />
+              ))}
+            </div>
+          </div>
+        </div>
+        <div
+          className="absolute pointer-events-none"
+          style={{
+            left: `${(crop.x / bounds.width) * 100}%`,
+            top: `${(crop.y / bounds.height) * 100}%`,
+            width: `${(crop.width / bounds.width) * 100}%`,
+            height: `${(crop.height / bounds.height) * 100}%`,
+          }}
+        >
+          {handles.map(({ mode, className }) => (
+            <div
+              key={mode}
+              className={cn("absolute w-4 h-4 rounded-sm bg-white shadow pointer-events-auto", className)}
+              onPointerDown={startDrag(mode)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="w-full max-w-xl space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="straighten" className="text-sm text-white">Straighten</Label>
+          <span className="text-xs text-white/70 tabular-nums">{edit.straighten.toFixed(1)}°</span>
+        </div>
+        <Slider
+          id="straighten"
+          min={-MAX_STRAIGHTEN_DEGREES}
+          max={MAX_STRAIGHTEN_DEGREES}
+          step={0.5}
+          value={[edit.straighten]}
+          onValueChange={handleStraightenChange}
+        />
+      </div>
+
+      <div className="absolute bottom-6 md:bottom-10 inset-x-0 z-40 flex items-center justify-center px-4">
+        <div className="flex flex-wrap items-center justify-center bg-black/50 backdrop-blur-md p-2 md:p-3 rounded-2xl shadow-xl gap-2">
+          <Button onClick={() => rotateBy(-90)} variant="ghost" size="icon" className="text-white hover:bg-white/20" aria-label="Rotate Left">
+            <RotateCcw size={20} />
+          </Button>
+          <Button onClick={() => rotateBy(90)} variant="ghost" size="icon" className="text-white hover:bg-white/20" aria-label="Rotate Right">
+            <RotateCw size={20} />
+          </Button>
+          <Button
+            onClick={() => setEdit(prev => ({ ...prev, flipH: !prev.flipH }))}
+            variant="ghost"
+            size="icon"
+            className={cn("text-white hover:bg-white/20", { 'bg-white/20': edit.flipH })}
+            aria-label="Flip Horizontal"
+            aria-pressed={edit.flipH}
+          >
+            <FlipHorizontal size={20} />
+          </Button>
+          <Button
+            onClick={() => setEdit(prev => ({ ...prev, flipV: !prev.flipV }))}
+            variant="ghost"
+            size="icon"
+            className={cn("text-white hover:bg-white/20", { 'bg-white/20': edit.flipV })}
+            aria-label="Flip Vertical"
+            aria-pressed={edit.flipV}
+          >
+            <FlipVertical size={20} />
+          </Button>
+          <Button onClick={handleReset} variant="ghost" size="icon" className="text-white hover:bg-white/20" aria-label="Reset Edits">
+            <Undo2 size={20} />
+          </Button>
+          <Button onClick={onCancel} variant="outline" className="text-sm px-4 py-2 bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full" disabled={isApplying}>
+            <X className="mr-2 h-4 w-4" /> Cancel
+          </Button>
+          <Button onClick={handleApply} className="text-sm px-4 py-2 bg-accent hover:bg-accent/90 text-accent-foreground rounded-full" disabled={isApplying}>
+            {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+            Apply
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ImagePlus, Pipette } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CHROMA_BACKGROUNDS,
+  CHROMA_BACKGROUND_KEYS_ORDERED,
+  CHROMA_KEY_PRESETS,
+  type ChromaBackground,
+  type ChromaKeyOptions as ChromaKeyOptionsValue,
+} from '@/lib/pixsnap/chroma-key';
+import { IMPORT_ACCEPTED_TYPES } from '@/lib/pixsnap/import';
+
+interface ChromaKeyOptionsProps {
+  isEnabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  value: ChromaKeyOptionsValue;
+  onChange: (value: ChromaKeyOptionsValue) => void;
+  /** False for output formats without alpha, which disables the transparent background. */
+  allowTransparency: boolean;
+  backgroundImageName: string | null;
+  onBackgroundImageChange: (file: File) => void;
+  isPickingColor: boolean;
+  onPickColorToggle: () => void;
+}
+
+/** Green/blue-screen controls: key color with eyedropper, tolerance, spill and the replacement background. */
+export default function ChromaKeyOptions({
+  isEnabled,
+  onEnabledChange,
+  value,
+  onChange,
+  allowTransparency,
+  backgroundImageName,
+  onBackgroundImageChange,
+  isPickingColor,
+  onPickColorToggle,
+}: ChromaKeyOptionsProps) {
+  const backgroundInputRef = useRef<HTMLInputElement>(null);
+  const update = (patch: Partial<ChromaKeyOptionsValue>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="chroma-enabled" className="text-sm font-medium">Chroma Key</Label>
+        <Switch id="chroma-enabled" checked={isEnabled} onCheckedChange={onEnabledChange} />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">Key Color</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="color"
+            value={value.keyColor}
+            onChange={(e) => update({ keyColor: e.target.value })}
+            className="w-12 h-9 p-1 cursor-pointer"
+            aria-label="Key color"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={onPickColorToggle}
+            className={cn({ 'bg-accent text-accent-foreground': isPickingColor })}
+            aria-pressed={isPickingColor}
+          >
+            <Pipette className="mr-1 h-4 w-4" /> {isPickingColor ? 'Click the view...' : 'Pick'}
+          </Button>
+          {CHROMA_KEY_PRESETS.map(preset => (
+            <Button key={preset.color} type="button" variant="ghost" size="sm" onClick={() => update({ keyColor: preset.color })}>
+              <span className="mr-1 h-3 w-3 rounded-full border" style={{ backgroundColor: preset.color }} />
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <Label htmlFor="chroma-tolerance">Tolerance</Label>
+          <span className="text-muted-foreground tabular-nums">{value.tolerance}</span>
+        </div>
+        <Slider id="chroma-tolerance" min={0} max={100} step={1} value={[value.tolerance]} onValueChange={(values) => update({ tolerance: values[0] })} />
+      </div>
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <Label htmlFor="chroma-spill">Spill Suppression</Label>
+          <span className="text-muted-foreground tabular-nums">{value.spill}</span>
+        </div>
+        <Slider id="chroma-spill" min={0} max={100} step={1} value={[value.spill]} onValueChange={(values) => update({ spill: values[0] })} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="chroma-background" className="text-sm">Background</Label>
+        <div className="flex items-center gap-2">
+          <Select value={value.background} onValueChange={(background) => update({ background: background as ChromaBackground })}>
+            <SelectTrigger id="chroma-background" className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHROMA_BACKGROUND_KEYS_ORDERED.map(background => (
+                <SelectItem key={background} value={background} disabled={background === 'transparent' && !allowTransparency}>
+                  {CHROMA_BACKGROUNDS[background].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {value.background !== 'transparent' && (
+            <Input
+              type="color"
+              value={value.backgroundColor}
+              onChange={(e) => update({ backgroundColor: e.target.value })}
+              className="w-12 h-9 p-1 cursor-pointer"
+              aria-label="Background color"
+            />
+          )}
+        </div>
+        {!allowTransparency && (
+          <p className="text-xs text-muted-foreground">Transparency needs PNG or WEBP output.</p>
+        )}
+        {value.background === 'image' && (
+          <>
+            <input
+              ref={backgroundInputRef}
+              type="file"
+              accept={IMPORT_ACCEPTED_TYPES.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onBackgroundImageChange(file);
+              }}
+            />
+            <Button type="button" variant="outline" size="sm" className="w-full" onClick={() => backgroundInputRef.current?.click()}>
+              <ImagePlus className="mr-2 h-4 w-4" />
+              <span className="truncate">{backgroundImageName ?? 'Choose Background Image'}</span>
+            </Button>
+            {!backgroundImageName && (
+              <p className="text-xs text-muted-foreground">Until an image is chosen the solid color is used.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
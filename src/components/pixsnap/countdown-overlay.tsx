@@ -0,0 +1,29 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+
+interface CountdownOverlayProps {
+  remaining: number;
+  label?: string;
+  onCancel: () => void;
+}
+
+/** Full-screen self-timer countdown that leaves the live view visible underneath. */
+export default function CountdownOverlay({ remaining, label, onCancel }: CountdownOverlayProps) {
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col items-center justify-center bg-black/30 text-white pointer-events-none">
+      <span key={remaining} className="text-[10rem] md:text-[14rem] leading-none font-bold tabular-nums drop-shadow-2xl animate-in zoom-in-50 fade-in duration-300">
+        {remaining}
+      </span>
+      {label && <p className="text-lg mt-2 drop-shadow">{label}</p>}
+      <Button
+        onClick={onCancel}
+        variant="outline"
+        className="mt-8 pointer-events-auto bg-white/20 hover:bg-white/30 border-white/40 text-white rounded-full px-6"
+      >
+        <X className="mr-2 h-4 w-4" /> Cancel
+      </Button>
+    </div>
+  );
+}
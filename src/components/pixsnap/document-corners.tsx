@@ -0,0 +1,77 @@
+"use client";
+
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { useRef } from 'react';
+import { cn } from '@/lib/utils';
+import type { Quad } from '@/lib/pixsnap/document';
+
+interface DocumentCornersProps {
+  /** Page corners as fractions of this element's size. */
+  quad: Quad;
+  onChange: (quad: Quad) => void;
+  /** Auto-detected corners are drawn in a different color from hand-placed ones. */
+  isDetected?: boolean;
+  disabled?: boolean;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Outline of the page to flatten, with a draggable handle on each corner. */
+export default function DocumentCorners({ quad, onChange, isDetected, disabled }: DocumentCornersProps) {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+
+  const startDrag = (index: number) => (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragIndexRef.current = index;
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const index = dragIndexRef.current;
+    if (index === null || !areaRef.current) return;
+    const bounds = areaRef.current.getBoundingClientRect();
+    const next = quad.map(point => ({ ...point })) as Quad;
+    next[index] = {
+      x: clamp01((e.clientX - bounds.left) / bounds.width),
+      y: clamp01((e.clientY - bounds.top) / bounds.height),
+    };
+    onChange(next);
+  };
+
+  const handlePointerUp = () => {
+    dragIndexRef.current = null;
+  };
+
+  const points = quad.map(point => `${point.x * 100},${point.y * 100}`).join(' ');
+
+  return (
+    <div ref={areaRef} className="absolute inset-0 z-10 touch-none pointer-events-none">
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+        <polygon
+          points={points}
+          className={cn(isDetected ? 'fill-emerald-400/15 stroke-emerald-400' : 'fill-sky-400/15 stroke-sky-400')}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      {quad.map((point, index) => (
+        <div
+          key={index}
+          className={cn(
+            "absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow pointer-events-auto",
+            isDetected ? 'bg-emerald-500' : 'bg-sky-500',
+            disabled ? 'cursor-default' : 'cursor-grab'
+          )}
+          style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+          onPointerDown={startDrag(index)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          aria-label={['Top-left corner', 'Top-right corner', 'Bottom-right corner', 'Bottom-left corner'][index]}
+        />
+      ))}
+    </div>
+  );
+}
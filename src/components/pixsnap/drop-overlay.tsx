@@ -0,0 +1,16 @@
+"use client";
+
+import { ImagePlus } from 'lucide-react';
+
+/** Shown while an image is dragged over the window. */
+export default function DropOverlay() {
+  return (
+    <div className="fixed inset-0 z-[70] flex flex-col items-center justify-center bg-black/70 text-white pointer-events-none">
+      <div className="flex flex-col items-center gap-3 rounded-2xl border-2 border-dashed border-accent px-12 py-10">
+        <ImagePlus size={48} className="text-accent" />
+        <p className="text-xl font-semibold">Drop image to import</p>
+        <p className="text-sm text-white/70">JPEG, PNG or WEBP</p>
+      </div>
+    </div>
+  );
+}
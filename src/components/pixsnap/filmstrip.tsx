@@ -0,0 +1,67 @@
+"use client";
+
+import { CheckCircle2, Circle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface FilmstripFrame {
+  id: string;
+  previewUrl: string;
+  caption?: string;
+}
+
+interface FilmstripProps {
+  frames: FilmstripFrame[];
+  selectedIds: string[];
+  focusedId?: string | null;
+  /** Frame to call out with `highlightLabel`, e.g. the sharpest one of a burst. */
+  highlightedId?: string | null;
+  highlightLabel?: string;
+  onFocus: (id: string) => void;
+  onToggle: (id: string) => void;
+}
+
+/** Horizontal strip of captured frames with per-frame selection. */
+export default function Filmstrip({ frames, selectedIds, focusedId, highlightedId, highlightLabel, onFocus, onToggle }: FilmstripProps) {
+  return (
+    <div className="flex gap-2 overflow-x-auto max-w-full p-1">
+      {frames.map((frame, index) => {
+        const isSelected = selectedIds.includes(frame.id);
+        return (
+          <div
+            key={frame.id}
+            className={cn(
+              "relative flex-shrink-0 rounded-md overflow-hidden border-2 cursor-pointer",
+              frame.id === focusedId ? 'border-accent' : 'border-transparent'
+            )}
+            onClick={() => onFocus(frame.id)}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={frame.previewUrl} alt={`Frame ${index + 1}`} className="h-16 md:h-20 w-auto block" />
+            <button
+              type="button"
+              className="absolute top-1 right-1 text-white drop-shadow"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggle(frame.id);
+              }}
+              aria-label={isSelected ? `Deselect frame ${index + 1}` : `Select frame ${index + 1}`}
+              aria-pressed={isSelected}
+            >
+              {isSelected ? <CheckCircle2 size={18} className="text-accent fill-black/50" /> : <Circle size={18} />}
+            </button>
+            {frame.id === highlightedId && highlightLabel && (
+              <span className="absolute bottom-0 inset-x-0 bg-accent/90 text-accent-foreground text-[10px] font-semibold text-center">
+                {highlightLabel}
+              </span>
+            )}
+            {frame.caption && frame.id !== highlightedId && (
+              <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-[10px] text-center tabular-nums">
+                {frame.caption}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { cn } from '@/lib/utils';
+
+interface FramingMaskProps {
+  /** Region of the viewfinder that ends up in the output, as fractions of its width and height. */
+  frame: { left: number; top: number; width: number; height: number };
+  className?: string;
+}
+
+/**
+ * Dims everything outside the captured region of the live view and outlines the region itself,
+ * so the framing on screen matches the saved pixels.
+ */
+export default function FramingMask({ frame, className }: FramingMaskProps) {
+  return (
+    <div className={cn("absolute inset-0 overflow-hidden pointer-events-none rounded-none md:rounded-lg", className)}>
+      <div
+        className="absolute border border-white/70"
+        style={{
+          left: `${frame.left * 100}%`,
+          top: `${frame.top * 100}%`,
+          width: `${frame.width * 100}%`,
+          height: `${frame.height * 100}%`,
+          boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { Area, AreaChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, type ChartConfig } from '@/components/ui/chart';
+import { cn } from '@/lib/utils';
+import type { Histogram } from '@/lib/pixsnap/exposure';
+
+const chartConfig = {
+  red: { label: 'Red', color: '#ef4444' },
+  green: { label: 'Green', color: '#22c55e' },
+  blue: { label: 'Blue', color: '#3b82f6' },
+  luma: { label: 'Luminance', color: '#ffffff' },
+} satisfies ChartConfig;
+
+const CHANNELS = ['red', 'green', 'blue', 'luma'] as const;
+
+/** Clipping above this share of the frame is flagged. */
+const CLIPPING_WARNING_FRACTION = 0.01;
+
+interface HistogramPanelProps {
+  histogram: Histogram;
+  className?: string;
+}
+
+/** Compact RGB + luminance histogram with highlight/shadow clipping readouts. */
+export default function HistogramPanel({ histogram, className }: HistogramPanelProps) {
+  // Normalise every channel to the same peak so a flat scene still shows its shape.
+  const peak = Math.max(1, ...CHANNELS.flatMap(channel => histogram[channel]));
+  const data = histogram.luma.map((_, bin) => ({
+    bin,
+    red: histogram.red[bin] / peak,
+    green: histogram.green[bin] / peak,
+    blue: histogram.blue[bin] / peak,
+    luma: histogram.luma[bin] / peak,
+  }));
+  const highlightsWarning = histogram.highlightsClipped >= CLIPPING_WARNING_FRACTION;
+  const shadowsWarning = histogram.shadowsClipped >= CLIPPING_WARNING_FRACTION;
+
+  return (
+    <div className={cn("w-56 rounded-lg bg-black/60 p-2 backdrop-blur-sm pointer-events-none", className)}>
+      <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+        <AreaChart data={data} margin={{ top: 0, right: 0, bottom: 0, left: 0 }}>
+          <XAxis dataKey="bin" hide />
+          <YAxis hide domain={[0, 1]} />
+          {CHANNELS.map(channel => (
+            <Area
+              key={channel}
+              dataKey={channel}
+              type="monotone"
+              stroke={`var(--color-${channel})`}
+              fill={`var(--color-${channel})`}
+              fillOpacity={channel === 'luma' ? 0.15 : 0.25}
+              strokeWidth={1}
+              isAnimationActive={false}
+              dot={false}
+            />
+          ))}
+        </AreaChart>
+      </ChartContainer>
+      <div className="mt-1 flex justify-between text-[10px] tabular-nums">
+        <span className={shadowsWarning ? 'text-sky-400 font-semibold' : 'text-white/60'}>
+          Shadows {(histogram.shadowsClipped * 100).toFixed(1)}%
+        </span>
+        <span className={highlightsWarning ? 'text-pink-400 font-semibold' : 'text-white/60'}>
+          Highlights {(histogram.highlightsClipped * 100).toFixed(1)}%
+        </span>
+      </div>
+    </div>
+  );
+}
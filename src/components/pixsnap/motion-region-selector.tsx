@@ -0,0 +1,92 @@
+"use client";
+
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { Rect } from '@/lib/pixsnap/transform';
+
+/** Drags shorter than this (as a fraction of the frame) are treated as clicks. */
+const MIN_REGION_SIZE = 0.03;
+
+interface MotionRegionSelectorProps {
+  /** Watched region as fractions of this element's size; null means the whole frame. */
+  region: Rect | null;
+  onChange: (region: Rect) => void;
+  /** While watching, the region is shown but can't be redrawn. */
+  isLocked?: boolean;
+  /** Briefly highlights the region after a shot fired. */
+  isTriggered?: boolean;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Lets the user drag out the part of the live view that motion capture watches. */
+export default function MotionRegionSelector({ region, onChange, isLocked, isTriggered }: MotionRegionSelectorProps) {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<Rect | null>(null);
+
+  const toFraction = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const bounds = areaRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - bounds.left) / bounds.width), y: clamp01((e.clientY - bounds.top) / bounds.height) };
+  };
+
+  const handlePointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (isLocked || !areaRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = toFraction(e);
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toFraction(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    startRef.current = null;
+    if (draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) onChange(draft);
+    setDraft(null);
+  };
+
+  const shown = draft ?? region;
+
+  return (
+    <div
+      ref={areaRef}
+      className={cn("absolute inset-0 z-10 touch-none", isLocked ? 'pointer-events-none' : 'cursor-crosshair')}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {shown ? (
+        <div
+          className={cn(
+            "absolute border-2 border-dashed transition-colors",
+            isTriggered ? 'border-destructive bg-destructive/20' : 'border-amber-400 bg-amber-400/10'
+          )}
+          style={{
+            left: `${shown.x * 100}%`,
+            top: `${shown.y * 100}%`,
+            width: `${shown.width * 100}%`,
+            height: `${shown.height * 100}%`,
+          }}
+        />
+      ) : (
+        !isLocked && (
+          <p className="absolute inset-x-0 top-1/2 -translate-y-1/2 text-center text-sm text-white/80 drop-shadow pointer-events-none">
+            Drag to choose the area to watch (whole frame by default)
+          </p>
+        )
+      )}
+    </div>
+  );
+}
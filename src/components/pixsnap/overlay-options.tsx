@@ -0,0 +1,68 @@
+"use client";
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MAX_GRID_DIVISIONS, OVERLAYS, OVERLAY_KEYS_ORDERED, type OverlayKey, type OverlaySettings } from '@/lib/pixsnap/settings';
+
+interface OverlayOptionsProps {
+  value: OverlaySettings;
+  onChange: (value: OverlaySettings) => void;
+  /** Prefix for element ids so the options can appear more than once on a page. */
+  idPrefix?: string;
+}
+
+const clampDivisions = (raw: string) => {
+  const val = parseInt(raw, 10);
+  return isNaN(val) ? 1 : Math.min(MAX_GRID_DIVISIONS, Math.max(1, val));
+};
+
+/** Checklist of viewfinder overlays plus the custom grid size. */
+export default function OverlayOptions({ value, onChange, idPrefix = 'overlay' }: OverlayOptionsProps) {
+  const toggle = (key: OverlayKey, checked: boolean) => {
+    const enabled = checked ? [...value.enabled, key] : value.enabled.filter(k => k !== key);
+    // Keep the list in display order so URLs stay stable.
+    onChange({ ...value, enabled: OVERLAY_KEYS_ORDERED.filter(k => enabled.includes(k)) });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+      {OVERLAY_KEYS_ORDERED.map((key) => (
+        <div key={key} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${key}`}
+            checked={value.enabled.includes(key)}
+            onCheckedChange={(checked) => toggle(key, checked === true)}
+          />
+          <Label htmlFor={`${idPrefix}-${key}`} className="text-sm font-normal">{OVERLAYS[key].label}</Label>
+        </div>
+      ))}
+      {value.enabled.includes('grid') && (
+        <div className="col-span-2 flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}-gridColumns`} className="text-xs text-muted-foreground">Grid</Label>
+          <Input
+            id={`${idPrefix}-gridColumns`}
+            type="number"
+            min="1"
+            max={MAX_GRID_DIVISIONS}
+            value={value.gridColumns}
+            onChange={(e) => onChange({ ...value, gridColumns: clampDivisions(e.target.value) })}
+            className="h-8 w-16"
+            aria-label="Grid columns"
+          />
+          <span className="text-xs text-muted-foreground">x</span>
+          <Input
+            id={`${idPrefix}-gridRows`}
+            type="number"
+            min="1"
+            max={MAX_GRID_DIVISIONS}
+            value={value.gridRows}
+            onChange={(e) => onChange({ ...value, gridRows: clampDivisions(e.target.value) })}
+            className="h-8 w-16"
+            aria-label="Grid rows"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
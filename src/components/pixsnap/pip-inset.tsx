@@ -0,0 +1,98 @@
+"use client";
+
+import type { PointerEvent as ReactPointerEvent, RefObject } from 'react';
+import { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import type { Rect } from '@/lib/pixsnap/transform';
+import { MIN_PIP_SIZE, type PipLayout } from '@/lib/pixsnap/pip';
+
+interface DragState {
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  startRect: Rect;
+  areaWidth: number;
+  areaHeight: number;
+}
+
+interface PipInsetProps {
+  stream: MediaStream;
+  /** The inset's <video>, read at capture time to composite the second source. */
+  videoRef: RefObject<HTMLVideoElement>;
+  layout: PipLayout;
+  onChange: (layout: PipLayout) => void;
+  isLocked?: boolean;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Live picture-in-picture inset over the output area. Drag to move, drag the corner handle to
+ * resize. Sizes use container units so the corners and border match the captured image.
+ */
+export default function PipInset({ stream, videoRef, layout, onChange, isLocked }: PipInsetProps) {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && video.srcObject !== stream) video.srcObject = stream;
+  }, [stream, videoRef]);
+
+  const startDrag = (mode: DragState['mode']) => (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (isLocked || !areaRef.current) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const bounds = areaRef.current.getBoundingClientRect();
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startRect: layout.rect, areaWidth: bounds.width, areaHeight: bounds.height };
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (e.clientX - drag.startX) / drag.areaWidth;
+    const dy = (e.clientY - drag.startY) / drag.areaHeight;
+    const start = drag.startRect;
+    const rect = drag.mode === 'move'
+      ? { ...start, x: clamp(start.x + dx, 0, 1 - start.width), y: clamp(start.y + dy, 0, 1 - start.height) }
+      : {
+          ...start,
+          width: clamp(start.width + dx, MIN_PIP_SIZE, 1 - start.x),
+          height: clamp(start.height + dy, MIN_PIP_SIZE, 1 - start.y),
+        };
+    onChange({ ...layout, rect });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div ref={areaRef} className="absolute inset-0 z-10 pointer-events-none" style={{ containerType: 'inline-size' }}>
+      <div
+        className={cn("absolute overflow-hidden touch-none pointer-events-auto shadow-lg", isLocked ? 'cursor-default' : 'cursor-move')}
+        style={{
+          left: `${layout.rect.x * 100}%`,
+          top: `${layout.rect.y * 100}%`,
+          width: `${layout.rect.width * 100}%`,
+          height: `${layout.rect.height * 100}%`,
+          borderRadius: `${layout.cornerRadius * 100}cqw`,
+          border: `${layout.borderWidth * 100}cqw solid ${layout.borderColor}`,
+        }}
+        onPointerDown={startDrag('move')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover pointer-events-none" />
+        {!isLocked && (
+          <div
+            className="absolute right-0 bottom-0 w-4 h-4 rounded-tl-sm bg-white/90 cursor-nwse-resize"
+            onPointerDown={startDrag('resize')}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getCameraLabel } from '@/lib/pixsnap/cameras';
+import { DEFAULT_PIP_LAYOUT, MAX_PIP_BORDER_WIDTH, MAX_PIP_CORNER_RADIUS, type PipLayout, type PipSource } from '@/lib/pixsnap/pip';
+
+const SCREEN_VALUE = 'screen';
+const OFF_VALUE = 'off';
+
+interface PipOptionsProps {
+  source: PipSource | null;
+  onSourceChange: (source: PipSource | null) => void;
+  /** Cameras that can be used for the inset, i.e. not the one already shown full size. */
+  cameras: MediaDeviceInfo[];
+  allCameras: MediaDeviceInfo[];
+  canUseScreen: boolean;
+  layout: PipLayout;
+  onLayoutChange: (layout: PipLayout) => void;
+  isStarting?: boolean;
+}
+
+/** Second-source picker plus the inset's border and corner styling. */
+export default function PipOptions({
+  source,
+  onSourceChange,
+  cameras,
+  allCameras,
+  canUseScreen,
+  layout,
+  onLayoutChange,
+  isStarting,
+}: PipOptionsProps) {
+  const value = !source ? OFF_VALUE : source.kind === 'screen' ? SCREEN_VALUE : source.deviceId;
+
+  const handleValueChange = (next: string) => {
+    if (next === OFF_VALUE) onSourceChange(null);
+    else if (next === SCREEN_VALUE) onSourceChange({ kind: 'screen' });
+    else onSourceChange({ kind: 'camera', deviceId: next });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="pip-source" className="text-sm font-medium">Picture-in-Picture</Label>
+        <Select value={value} onValueChange={handleValueChange} disabled={isStarting}>
+          <SelectTrigger id="pip-source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={OFF_VALUE}>Off</SelectItem>
+            {cameras.map(camera => (
+              <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                {getCameraLabel(allCameras, camera.deviceId)}
+              </SelectItem>
+            ))}
+            {canUseScreen && <SelectItem value={SCREEN_VALUE}>Screen Share</SelectItem>}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">Drag the inset to move it and its corner to resize it.</p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <Label htmlFor="pip-corner">Corner Radius</Label>
+          <span className="text-muted-foreground tabular-nums">{Math.round((layout.cornerRadius / MAX_PIP_CORNER_RADIUS) * 100)}%</span>
+        </div>
+        <Slider
+          id="pip-corner"
+          min={0}
+          max={MAX_PIP_CORNER_RADIUS}
+          step={MAX_PIP_CORNER_RADIUS / 50}
+          value={[layout.cornerRadius]}
+          onValueChange={(values) => onLayoutChange({ ...layout, cornerRadius: values[0] })}
+        />
+      </div>
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <Label htmlFor="pip-border">Border</Label>
+          <span className="text-muted-foreground tabular-nums">{Math.round((layout.borderWidth / MAX_PIP_BORDER_WIDTH) * 100)}%</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Slider
+            id="pip-border"
+            min={0}
+            max={MAX_PIP_BORDER_WIDTH}
+            step={MAX_PIP_BORDER_WIDTH / 50}
+            value={[layout.borderWidth]}
+            onValueChange={(values) => onLayoutChange({ ...layout, borderWidth: values[0] })}
+            className="flex-1"
+          />
+          <Input
+            type="color"
+            value={layout.borderColor}
+            onChange={(e) => onLayoutChange({ ...layout, borderColor: e.target.value })}
+            className="w-12 h-9 p-1 cursor-pointer"
+            aria-label="Border color"
+          />
+        </div>
+      </div>
+      <button
+        type="button"
+        className="text-xs text-muted-foreground underline-offset-2 hover:underline"
+        onClick={() => onLayoutChange(DEFAULT_PIP_LAYOUT)}
+      >
+        Reset inset position and style
+      </button>
+    </div>
+  );
+}
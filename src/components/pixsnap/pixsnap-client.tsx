@@ -2,7 +2,7 @@
 "use client";
 
 import type { ChangeEvent } from 'react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -15,7 +15,35 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Camera, Settings2 } from 'lucide-react';
+import { useFilenamePrefix } from '@/hooks/use-filename-prefix';
+import { useImageImport } from '@/hooks/use-image-import';
+import { Camera, Download, ImagePlus, Loader2, Settings2, X } from 'lucide-react';
+import {
+  DEFAULT_FILL_COLOR,
+  DEFAULT_FIT_MODE,
+  DEFAULT_CAPTION_SETTINGS,
+  DEFAULT_OVERLAY_SETTINGS,
+  DEFAULT_WATERMARK_SETTINGS,
+  FIT_MODES,
+  FIT_MODE_KEYS_ORDERED,
+  settingsToSearchParams,
+  type CaptionSettings,
+  type FitMode,
+  type OutputFormat,
+  type OverlaySettings,
+  type PixsnapSettings,
+  type WatermarkSettings,
+} from '@/lib/pixsnap/settings';
+import { dataUrlToBlob, encodeCanvas, type EncodeResult } from '@/lib/pixsnap/encode';
+import { renderFittedFrame } from '@/lib/pixsnap/frames';
+import { IMPORT_ACCEPTED_TYPES, loadImageFile } from '@/lib/pixsnap/import';
+import { triggerDownload } from '@/lib/pixsnap/download';
+import { drawCaptionBar, formatCaption } from '@/lib/pixsnap/caption';
+import { drawWatermark, loadWatermarkLogoDataUrl, prepareWatermarkLogo, saveWatermarkLogoDataUrl } from '@/lib/pixsnap/watermark';
+import DropOverlay from '@/components/pixsnap/drop-overlay';
+import OverlayOptions from '@/components/pixsnap/overlay-options';
+import WatermarkOptions from '@/components/pixsnap/watermark-options';
+import CaptionOptions from '@/components/pixsnap/caption-options';
 
 const ASPECT_RATIOS: Record<string, { ratioWbyH: number | null; label: string }> = {
   '16:9': { ratioWbyH: 16 / 9, label: '16:9 (Landscape Wide)' },
@@ -26,8 +54,8 @@ const ASPECT_RATIOS: Record<string, { ratioWbyH: number | null; label: string }>
   'custom': { ratioWbyH: null, label: 'Custom Dimensions' },
 };
 const ASPECT_RATIO_KEYS_ORDERED = ['16:9', '9:16', '4:3', '3:4', '1:1', 'custom'];
-
-type OutputFormat = 'png' | 'jpeg' | 'webp';
+// Wait for typing in the size fields to settle; each re-encode can take a while.
+const IMPORT_REENCODE_DELAY_MS = 400;
 
 export default function PixsnapClient() {
   const { toast } = useToast();
@@ -37,7 +65,121 @@ export default function PixsnapClient() {
   const [customHeight, setCustomHeight] = useState<number>(720);
   const [outputFormat, setOutputFormat] = useState<OutputFormat>('png');
   const [targetFileSizeKB, setTargetFileSizeKB] = useState<number>(0);
-  
+  const [fitMode, setFitMode] = useState<FitMode>(DEFAULT_FIT_MODE);
+  const [fillColor, setFillColor] = useState<string>(DEFAULT_FILL_COLOR);
+  const [overlays, setOverlays] = useState<OverlaySettings>(DEFAULT_OVERLAY_SETTINGS);
+  const [watermark, setWatermark] = useState<WatermarkSettings>(DEFAULT_WATERMARK_SETTINGS);
+  const [watermarkLogoUrl, setWatermarkLogoUrl] = useState<string | null>(null);
+  const [watermarkLogo, setWatermarkLogo] = useState<HTMLCanvasElement | null>(null);
+  const [caption, setCaption] = useState<CaptionSettings>(DEFAULT_CAPTION_SETTINGS);
+
+  const [importedImage, setImportedImage] = useState<{ source: HTMLCanvasElement; name: string; capturedAt: Date } | null>(null);
+  const [importResult, setImportResult] = useState<EncodeResult | null>(null);
+  const { isGeneratingName, resolveFilenamePrefix } = useFilenamePrefix();
+
+  const currentSettings: PixsnapSettings = {
+    aspectRatioKey: selectedAspectRatio,
+    width: customWidth,
+    height: customHeight,
+    format: outputFormat,
+    targetFileSizeKB: targetFileSizeKB,
+    fitMode: fitMode,
+    fillColor: fillColor,
+    overlays: overlays,
+    watermark: watermark,
+    caption: caption,
+  };
+
+  useEffect(() => {
+    setWatermarkLogoUrl(loadWatermarkLogoDataUrl());
+  }, []);
+
+  useEffect(() => {
+    if (!watermarkLogoUrl) {
+      setWatermarkLogo(null);
+      return;
+    }
+    let cancelled = false;
+    loadImageFile(dataUrlToBlob(watermarkLogoUrl))
+      .then(logo => {
+        if (!cancelled) setWatermarkLogo(logo);
+      })
+      .catch(e => console.error("Error decoding watermark logo:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [watermarkLogoUrl]);
+
+  const handleWatermarkLogoChange = async (file: File | null) => {
+    try {
+      const dataUrl = file ? await prepareWatermarkLogo(file) : null;
+      if (!saveWatermarkLogoDataUrl(dataUrl)) {
+        toast({ title: 'Logo Not Saved', description: 'Browser storage is full or unavailable.', variant: 'destructive' });
+        return;
+      }
+      setWatermarkLogoUrl(dataUrl);
+    } catch (e: any) {
+      console.error("Error loading watermark logo:", e);
+      toast({ title: 'Logo Error', description: e?.message || 'Could not read that image.', variant: 'destructive' });
+    }
+  };
+
+  // Re-run the imported image through the pipeline whenever the output settings change.
+  useEffect(() => {
+    if (!importedImage || outputFormat === 'gif') {
+      setImportResult(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      try {
+        const outputCanvas = renderFittedFrame(importedImage.source, { width: customWidth, height: customHeight, fitMode, fillColor });
+        const captionText = formatCaption(caption.template, {
+          capturedAt: importedImage.capturedAt,
+          device: 'Imported image',
+          note: caption.note,
+          location: null,
+        });
+        drawCaptionBar(outputCanvas, caption, captionText);
+        drawWatermark(outputCanvas, watermark, watermarkLogo);
+        setImportResult(encodeCanvas(outputCanvas, outputFormat, targetFileSizeKB));
+      } catch (e) {
+        console.error("Error processing imported image:", e);
+        setImportResult(null);
+      }
+    }, IMPORT_REENCODE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [importedImage, customWidth, customHeight, outputFormat, targetFileSizeKB, fitMode, fillColor, watermark, watermarkLogo, caption]);
+
+  const handleImportImage = async (file: File) => {
+    try {
+      const source = await loadImageFile(file);
+      setImportedImage({ source, name: file.name || 'Pasted image', capturedAt: new Date(file.lastModified || Date.now()) });
+      toast({ title: 'Image Imported', description: `${file.name || 'Pasted image'} (${source.width}x${source.height})` });
+    } catch (e: any) {
+      console.error("Error importing image:", e);
+      toast({ title: 'Import Error', description: e?.message || 'Could not read that image.', variant: 'destructive' });
+    }
+  };
+
+  const canConvertImport = outputFormat !== 'gif';
+  const imageImport = useImageImport(
+    handleImportImage,
+    () => toast({ title: 'Unsupported File', description: 'Import a JPEG, PNG or WEBP image.', variant: 'destructive' }),
+    canConvertImport
+  );
+
+  const handleDownloadImport = async () => {
+    if (!importResult) return;
+    let filename = `pixsnap_image_${customWidth}x${customHeight}.${outputFormat}`;
+    const prefix = await resolveFilenamePrefix(currentSettings);
+    if (prefix) {
+      filename = `${prefix}_${customWidth}x${customHeight}.${outputFormat}`;
+      toast({ title: 'Filename Generated!', description: `Using: ${filename}`, duration: 2000 });
+    }
+    triggerDownload(importResult.dataUrl, filename);
+    toast({ title: 'Download Started', description: `Image saved as ${filename}` });
+  };
+
   const handleAspectRatioChange = (newAspectRatioKey: string) => {
     setSelectedAspectRatio(newAspectRatioKey);
     if (newAspectRatioKey !== 'custom' && ASPECT_RATIOS[newAspectRatioKey]?.ratioWbyH) {
@@ -73,22 +215,7 @@ export default function PixsnapClient() {
   };
 
   const handleOpenCameraAndCapture = () => {
-    const settingsToPass = {
-      aspectRatioKey: selectedAspectRatio,
-      width: customWidth,
-      height: customHeight,
-      format: outputFormat,
-      targetFileSizeKB: targetFileSizeKB,
-    };
-
-    const params = new URLSearchParams();
-    params.append('aspectRatioKey', settingsToPass.aspectRatioKey);
-    params.append('width', settingsToPass.width.toString());
-    params.append('height', settingsToPass.height.toString());
-    params.append('format', settingsToPass.format);
-    params.append('targetFileSizeKB', settingsToPass.targetFileSizeKB.toString());
-    
-    const queryString = params.toString();
+    const queryString = settingsToSearchParams(currentSettings).toString();
 
     try {
       const previewWindow = window.open(`/preview?${queryString}`, '_blank', 'noopener,noreferrer');
@@ -105,11 +232,12 @@ export default function PixsnapClient() {
 
   return (
     <div className="flex flex-col min-h-screen bg-background text-foreground">
+      {imageImport.isDragging && <DropOverlay />}
       <header className="p-4 border-b">
         <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
            <Camera className="w-8 h-8" /> PixSnap
         </h1>
-        <p className="text-sm text-muted-foreground">Configure image settings, then open camera to capture.</p>
+        <p className="text-sm text-muted-foreground">Configure image settings, then open camera to capture or import an existing image.</p>
       </header>
       
       <div className="flex flex-1 justify-center items-start p-2 md:p-4">
@@ -148,6 +276,7 @@ export default function PixsnapClient() {
                     <SelectItem value="png">PNG</SelectItem>
                     <SelectItem value="jpeg">JPEG</SelectItem>
                     <SelectItem value="webp">WEBP</SelectItem>
+                    <SelectItem value="gif">GIF (Animated)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -173,6 +302,31 @@ export default function PixsnapClient() {
                   min="1"
                 />
               </div>
+              <div>
+                <Label htmlFor="fitMode" className="text-sm font-medium">Fit Mode</Label>
+                <Select value={fitMode} onValueChange={(value) => setFitMode(value as FitMode)}>
+                  <SelectTrigger id="fitMode" className="mt-1">
+                    <SelectValue placeholder="Select fit mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIT_MODE_KEYS_ORDERED.map((key) => (
+                      <SelectItem key={key} value={key}>{FIT_MODES[key].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="fillColor" className="text-sm font-medium">Letterbox Fill</Label>
+                <Input
+                  id="fillColor"
+                  type="color"
+                  value={fillColor}
+                  onChange={(e) => setFillColor(e.target.value)}
+                  disabled={fitMode !== 'contain'}
+                  className="mt-1 p-1 cursor-pointer"
+                />
+              </div>
+              <p className="sm:col-span-2 text-xs text-muted-foreground -mt-2">{FIT_MODES[fitMode].description}</p>
               <div className="sm:col-span-2">
                 <Label htmlFor="fileSize" className="text-sm font-medium">Max File Size (KB)</Label>
                 <Input 
@@ -188,9 +342,34 @@ export default function PixsnapClient() {
                 {outputFormat === 'png' && (
                   <p className="text-xs text-muted-foreground mt-1">PNG size control is limited. Target size has minimal effect for PNGs.</p>
                 )}
-                 {outputFormat !== 'png' && targetFileSizeKB > 0 && (
+                 {(outputFormat === 'jpeg' || outputFormat === 'webp') && targetFileSizeKB > 0 && (
                   <p className="text-xs text-muted-foreground mt-1">JPEG/WEBP quality will be adjusted to meet target. Results may vary.</p>
                 )}
+                {outputFormat === 'gif' && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    GIF opens the camera in animated sequence mode and can't be used to convert existing images.
+                    {targetFileSizeKB > 0 && ' Colors, then frame size, will be reduced to meet target.'}
+                  </p>
+                )}
+              </div>
+              <div className="sm:col-span-2 space-y-2">
+                <WatermarkOptions
+                  value={watermark}
+                  onChange={setWatermark}
+                  logoDataUrl={watermarkLogoUrl}
+                  onLogoChange={handleWatermarkLogoChange}
+                />
+                {watermark.kind !== 'none' && (
+                  <p className="text-xs text-muted-foreground">Stamped on every exported still, including converted images below.</p>
+                )}
+              </div>
+              <div className="sm:col-span-2">
+                <CaptionOptions value={caption} onChange={setCaption} />
+              </div>
+              <div className="sm:col-span-2 space-y-2">
+                <Label className="text-sm font-medium">Viewfinder Overlays</Label>
+                <OverlayOptions value={overlays} onChange={setOverlays} />
+                <p className="text-xs text-muted-foreground">Guides are shown on the live view only and never saved into the image.</p>
               </div>
             </CardContent>
           </Card>
@@ -202,6 +381,68 @@ export default function PixsnapClient() {
             >
               <Camera className="mr-2 h-5 w-5" /> Open Camera & Capture
             </Button>
+
+          <Card className="shadow-lg rounded-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-xl font-headline">
+                <ImagePlus className="w-6 h-6 text-primary" />
+                Convert Existing Image
+              </CardTitle>
+              <CardDescription className="font-body text-xs">
+                Pick, drop or paste a JPEG, PNG or WEBP. It is resized and encoded with the settings above.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <input
+                ref={imageImport.fileInputRef}
+                type="file"
+                accept={IMPORT_ACCEPTED_TYPES.join(',')}
+                className="hidden"
+                onChange={imageImport.handleFileInputChange}
+              />
+              {!canConvertImport ? (
+                <p className="text-sm text-muted-foreground">
+                  GIF is only used for animated captures. Choose PNG, JPEG or WEBP to convert an image.
+                </p>
+              ) : importedImage && importResult ? (
+                <>
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={importResult.dataUrl}
+                    alt={`Converted ${importedImage.name}`}
+                    className="w-full max-h-80 object-contain rounded-md border bg-muted"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {importedImage.name} ({importedImage.source.width}x{importedImage.source.height}) → {customWidth}x{customHeight} {outputFormat.toUpperCase()},{' '}
+                    {(importResult.sizeBytes / 1024).toFixed(1)} KB
+                    {importResult.quality !== undefined && `, quality ${Math.round(importResult.quality * 100)}%`}
+                    {!importResult.metTarget && ' (above target size)'}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => setImportedImage(null)} disabled={isGeneratingName}>
+                      <X className="mr-2 h-4 w-4" /> Clear
+                    </Button>
+                    <Button variant="outline" onClick={imageImport.openFilePicker} disabled={isGeneratingName}>
+                      <ImagePlus className="mr-2 h-4 w-4" /> Replace
+                    </Button>
+                    <Button onClick={handleDownloadImport} className="ml-auto bg-accent hover:bg-accent/90 text-accent-foreground" disabled={isGeneratingName}>
+                      {isGeneratingName ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                      Download
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={imageImport.openFilePicker}
+                  className="w-full flex flex-col items-center gap-2 rounded-lg border-2 border-dashed p-8 text-sm text-muted-foreground hover:border-primary hover:text-foreground transition-colors"
+                >
+                  <ImagePlus className="w-8 h-8" />
+                  Click to choose an image, drop one anywhere, or paste with Ctrl+V
+                </button>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
       <footer className="text-center p-4 text-sm text-muted-foreground font-body border-t">
@@ -0,0 +1,71 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, ExternalLink, FileSignature } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { SCAN_FORMATS, isOpenableUrl, type ScanResult } from '@/lib/pixsnap/scan';
+
+interface ScanResultsProps {
+  results: ScanResult[];
+  /** Value currently lined up as the next filename prefix, if any. */
+  filenameValue: string | null;
+  onUseAsFilename: (value: string) => void;
+}
+
+/** Decoded codes, newest first, with copy / open / use-as-filename actions. */
+export default function ScanResults({ results, filenameValue, onUseAsFilename }: ScanResultsProps) {
+  const { toast } = useToast();
+
+  const handleCopy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: 'Copied', description: value, duration: 2000 });
+    } catch (e) {
+      console.error("Error copying scan result:", e);
+      toast({ title: 'Copy Failed', description: 'Clipboard access was denied.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="w-full max-w-xl space-y-1 bg-black/50 backdrop-blur-md rounded-xl p-2">
+      {results.map((result) => (
+        <div
+          key={result.value}
+          className={cn("flex items-center gap-2 rounded-lg px-2 py-1 text-sm", { 'bg-white/10': result.value === filenameValue })}
+        >
+          <Badge variant="secondary" className="flex-shrink-0">{SCAN_FORMATS[result.format].label}</Badge>
+          <span className="flex-1 truncate font-mono text-white" title={result.value}>{result.value}</span>
+          <span className="text-xs text-white/60 tabular-nums">{format(result.scannedAt, 'HH:mm:ss')}</span>
+          <Button onClick={() => handleCopy(result.value)} variant="ghost" size="icon" className="h-7 w-7 text-white hover:bg-white/20" aria-label="Copy value">
+            <Copy size={14} />
+          </Button>
+          {isOpenableUrl(result.value) && (
+            <Button
+              onClick={() => window.open(result.value.trim(), '_blank', 'noopener,noreferrer')}
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-white hover:bg-white/20"
+              aria-label="Open link"
+            >
+              <ExternalLink size={14} />
+            </Button>
+          )}
+          <Button
+            onClick={() => onUseAsFilename(result.value)}
+            variant="ghost"
+            size="icon"
+            className={cn("h-7 w-7 text-white hover:bg-white/20", { 'bg-white/20': result.value === filenameValue })}
+            aria-label="Use as filename"
+            aria-pressed={result.value === filenameValue}
+            title="Use as filename for the next capture"
+          >
+            <FileSignature size={14} />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
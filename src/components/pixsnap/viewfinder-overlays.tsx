@@ -0,0 +1,111 @@
+"use client";
+
+import type { OverlaySettings } from '@/lib/pixsnap/settings';
+
+interface ViewfinderOverlaysProps {
+  overlays: OverlaySettings;
+  /** Region of the viewfinder that ends up in the output, as fractions of its width and height. */
+  frame: { left: number; top: number; width: number; height: number };
+  /** Output size; the guides are laid out in output pixels so circles stay circular. */
+  outputWidth: number;
+  outputHeight: number;
+}
+
+// Modern (SMPTE ST 2046-1) safe areas as a fraction of the frame.
+const ACTION_SAFE = 0.93;
+const TITLE_SAFE = 0.9;
+
+// ID-photo head placement as fractions of the frame height (crown, chin and the eye-line band).
+const ID_CROWN = 0.1;
+const ID_CHIN = 0.82;
+const ID_EYES_TOP = 0.36;
+const ID_EYES_BOTTOM = 0.44;
+
+const LINE_PROPS = {
+  stroke: 'white',
+  strokeOpacity: 0.7,
+  strokeWidth: 1,
+  vectorEffect: 'non-scaling-stroke' as const,
+  fill: 'none',
+};
+
+/**
+ * Composition guides for the live view. They are DOM/SVG only and sit on top of the `<video>`,
+ * so nothing here is ever drawn into the captured canvas.
+ */
+export default function ViewfinderOverlays({ overlays, frame, outputWidth, outputHeight }: ViewfinderOverlaysProps) {
+  if (overlays.enabled.length === 0) return null;
+  const w = outputWidth;
+  const h = outputHeight;
+  const isEnabled = (key: OverlaySettings['enabled'][number]) => overlays.enabled.includes(key);
+  const labelSize = Math.max(w, h) * 0.018;
+
+  const gridLines = (columns: number, rows: number, keyPrefix: string) => [
+    ...Array.from({ length: columns - 1 }, (_, i) => (
+      <line key={`${keyPrefix}-v${i}`} x1={(w * (i + 1)) / columns} y1={0} x2={(w * (i + 1)) / columns} y2={h} {...LINE_PROPS} />
+    )),
+    ...Array.from({ length: rows - 1 }, (_, i) => (
+      <line key={`${keyPrefix}-h${i}`} x1={0} y1={(h * (i + 1)) / rows} x2={w} y2={(h * (i + 1)) / rows} {...LINE_PROPS} />
+    )),
+  ];
+
+  const insetRect = (fraction: number, label: string) => {
+    const inset = (1 - fraction) / 2;
+    return (
+      <g key={label}>
+        <rect x={w * inset} y={h * inset} width={w * fraction} height={h * fraction} {...LINE_PROPS} strokeDasharray="6 4" />
+        <text x={w * inset + labelSize * 0.5} y={h * inset + labelSize * 1.2} fill="white" fillOpacity={0.7} fontSize={labelSize}>{label}</text>
+      </g>
+    );
+  };
+
+  const radius = Math.min(w, h) * 0.45;
+  const headRy = ((ID_CHIN - ID_CROWN) * h) / 2;
+  const headRx = headRy * 0.72;
+  const headCy = ((ID_CROWN + ID_CHIN) * h) / 2;
+
+  return (
+    <div
+      className="absolute pointer-events-none z-10"
+      style={{
+        left: `${frame.left * 100}%`,
+        top: `${frame.top * 100}%`,
+        width: `${frame.width * 100}%`,
+        height: `${frame.height * 100}%`,
+      }}
+    >
+      <svg viewBox={`0 0 ${w} ${h}`} preserveAspectRatio="none" className="w-full h-full overflow-visible">
+        {isEnabled('avatar') && (
+          <>
+            <mask id="pixsnap-avatar-mask">
+              <rect x={0} y={0} width={w} height={h} fill="white" />
+              <circle cx={w / 2} cy={h / 2} r={radius} fill="black" />
+            </mask>
+            <rect x={0} y={0} width={w} height={h} fill="black" fillOpacity={0.5} mask="url(#pixsnap-avatar-mask)" />
+            <circle cx={w / 2} cy={h / 2} r={radius} {...LINE_PROPS} />
+          </>
+        )}
+        {isEnabled('thirds') && gridLines(3, 3, 'thirds')}
+        {isEnabled('grid') && gridLines(overlays.gridColumns, overlays.gridRows, 'grid')}
+        {isEnabled('crosshair') && (
+          <g>
+            <line x1={w / 2 - labelSize * 2} y1={h / 2} x2={w / 2 + labelSize * 2} y2={h / 2} {...LINE_PROPS} strokeWidth={1.5} />
+            <line x1={w / 2} y1={h / 2 - labelSize * 2} x2={w / 2} y2={h / 2 + labelSize * 2} {...LINE_PROPS} strokeWidth={1.5} />
+          </g>
+        )}
+        {isEnabled('safeAreas') && [insetRect(ACTION_SAFE, 'Action safe'), insetRect(TITLE_SAFE, 'Title safe')]}
+        {isEnabled('idPhoto') && (
+          <g>
+            <ellipse cx={w / 2} cy={headCy} rx={headRx} ry={headRy} {...LINE_PROPS} strokeDasharray="8 4" />
+            <line x1={0} y1={h * ID_CROWN} x2={w} y2={h * ID_CROWN} {...LINE_PROPS} strokeOpacity={0.4} />
+            <line x1={0} y1={h * ID_CHIN} x2={w} y2={h * ID_CHIN} {...LINE_PROPS} strokeOpacity={0.4} />
+            <rect x={0} y={h * ID_EYES_TOP} width={w} height={h * (ID_EYES_BOTTOM - ID_EYES_TOP)} fill="white" fillOpacity={0.12} />
+            <text x={labelSize * 0.5} y={h * ID_EYES_TOP - labelSize * 0.4} fill="white" fillOpacity={0.8} fontSize={labelSize}>Eye line</text>
+            <text x={labelSize * 0.5} y={h * ID_CROWN - labelSize * 0.4} fill="white" fillOpacity={0.8} fontSize={labelSize}>Crown</text>
+            <text x={labelSize * 0.5} y={h * ID_CHIN - labelSize * 0.4} fill="white" fillOpacity={0.8} fontSize={labelSize}>Chin</text>
+          </g>
+        )}
+      </svg>
+    </div>
+  );
+}
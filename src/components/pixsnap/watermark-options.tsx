@@ -0,0 +1,172 @@
+"use client";
+
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ImagePlus, X } from 'lucide-react';
+import {
+  MAX_WATERMARK_MARGIN_PERCENT,
+  MAX_WATERMARK_SCALE_PERCENT,
+  MIN_WATERMARK_SCALE_PERCENT,
+  WATERMARK_KINDS,
+  WATERMARK_KIND_KEYS_ORDERED,
+  WATERMARK_POSITIONS,
+  WATERMARK_POSITION_KEYS_ORDERED,
+  type WatermarkKind,
+  type WatermarkPosition,
+  type WatermarkSettings,
+} from '@/lib/pixsnap/settings';
+
+interface WatermarkOptionsProps {
+  value: WatermarkSettings;
+  onChange: (value: WatermarkSettings) => void;
+  /** Stored logo as a data URL, shown as a thumbnail. */
+  logoDataUrl: string | null;
+  onLogoChange: (file: File | null) => void;
+}
+
+/** Text/logo watermark configuration: content, placement, opacity, scale and tiling. */
+export default function WatermarkOptions({ value, onChange, logoDataUrl, onLogoChange }: WatermarkOptionsProps) {
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const update = (patch: Partial<WatermarkSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+      <div>
+        <Label htmlFor="watermarkKind" className="text-sm font-medium">Watermark</Label>
+        <Select value={value.kind} onValueChange={(kind) => update({ kind: kind as WatermarkKind })}>
+          <SelectTrigger id="watermarkKind" className="w-full mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WATERMARK_KIND_KEYS_ORDERED.map(kind => (
+              <SelectItem key={kind} value={kind}>{WATERMARK_KINDS[kind].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.kind === 'text' && (
+        <div className="flex gap-2 items-end">
+          <div className="flex-1">
+            <Label htmlFor="watermarkText" className="text-sm font-medium">Text</Label>
+            <Input
+              id="watermarkText"
+              value={value.text}
+              onChange={(e) => update({ text: e.target.value })}
+              placeholder="© Your Company"
+              className="mt-1"
+            />
+          </div>
+          <Input
+            type="color"
+            value={value.textColor}
+            onChange={(e) => update({ textColor: e.target.value })}
+            className="w-12 h-10 p-1 cursor-pointer"
+            aria-label="Watermark text color"
+          />
+        </div>
+      )}
+
+      {value.kind === 'logo' && (
+        <div className="flex items-center gap-2">
+          <input
+            ref={logoInputRef}
+            type="file"
+            accept="image/png"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onLogoChange(file);
+            }}
+          />
+          {logoDataUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={logoDataUrl} alt="Watermark logo" className="h-10 w-16 object-contain rounded border bg-muted" />
+          )}
+          <Button type="button" variant="outline" onClick={() => logoInputRef.current?.click()}>
+            <ImagePlus className="mr-2 h-4 w-4" /> {logoDataUrl ? 'Replace Logo' : 'Upload Logo'}
+          </Button>
+          {logoDataUrl && (
+            <Button type="button" variant="ghost" size="icon" onClick={() => onLogoChange(null)} aria-label="Remove logo">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      {value.kind !== 'none' && (
+        <>
+          <div>
+            <Label htmlFor="watermarkPosition" className="text-sm font-medium">Position</Label>
+            <Select
+              value={value.position}
+              onValueChange={(position) => update({ position: position as WatermarkPosition })}
+              disabled={value.tiled}
+            >
+              <SelectTrigger id="watermarkPosition" className="w-full mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WATERMARK_POSITION_KEYS_ORDERED.map(position => (
+                  <SelectItem key={position} value={position}>{WATERMARK_POSITIONS[position].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 h-10">
+            <Checkbox id="watermarkTiled" checked={value.tiled} onCheckedChange={(checked) => update({ tiled: checked === true })} />
+            <Label htmlFor="watermarkTiled" className="text-sm font-normal">Tile across the image</Label>
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <Label htmlFor="watermarkScale" className="font-medium">Size</Label>
+              <span className="text-muted-foreground tabular-nums">{value.scalePercent}% of width</span>
+            </div>
+            <Slider
+              id="watermarkScale"
+              min={MIN_WATERMARK_SCALE_PERCENT}
+              max={MAX_WATERMARK_SCALE_PERCENT}
+              step={1}
+              value={[value.scalePercent]}
+              onValueChange={(values) => update({ scalePercent: values[0] })}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <Label htmlFor="watermarkOpacity" className="font-medium">Opacity</Label>
+              <span className="text-muted-foreground tabular-nums">{value.opacityPercent}%</span>
+            </div>
+            <Slider
+              id="watermarkOpacity"
+              min={0}
+              max={100}
+              step={1}
+              value={[value.opacityPercent]}
+              onValueChange={(values) => update({ opacityPercent: values[0] })}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <Label htmlFor="watermarkMargin" className="font-medium">{value.tiled ? 'Spacing' : 'Margin'}</Label>
+              <span className="text-muted-foreground tabular-nums">{value.marginPercent}%</span>
+            </div>
+            <Slider
+              id="watermarkMargin"
+              min={0}
+              max={MAX_WATERMARK_MARGIN_PERCENT}
+              step={1}
+              value={[value.marginPercent]}
+              onValueChange={(values) => update({ marginPercent: values[0] })}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
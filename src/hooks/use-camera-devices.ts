@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/** Lists the video inputs and keeps the list current as cameras are plugged in or removed. */
+export function useCameraDevices() {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async (): Promise<MediaDeviceInfo[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const videoInputs = devices.filter(device => device.kind === 'videoinput');
+    setCameras(videoInputs);
+    return videoInputs;
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    const handleDeviceChange = () => {
+      refresh().catch(err => console.error('Error listing cameras:', err));
+    };
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [refresh]);
+
+  return { cameras, refresh };
+}
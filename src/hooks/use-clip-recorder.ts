@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { drawFitted } from '@/lib/pixsnap/fit';
+import type { PixsnapSettings } from '@/lib/pixsnap/settings';
+import { getContainerMimeType, type VideoFormatOption } from '@/lib/pixsnap/video';
+
+const RECORDING_FPS = 30;
+/** How often MediaRecorder hands over data; the size limit is checked once per chunk. */
+const RECORDER_TIMESLICE_MS = 250;
+
+export type ClipStopReason = 'user' | 'duration' | 'size';
+
+export interface RecordedClip {
+  blob: Blob;
+  format: VideoFormatOption;
+  durationMs: number;
+  stoppedBy: ClipStopReason;
+}
+
+export interface ClipRecordingOptions {
+  video: HTMLVideoElement;
+  settings: Pick<PixsnapSettings, 'width' | 'height' | 'fitMode' | 'fillColor'>;
+  format: VideoFormatOption;
+  /** 0 for no limit. */
+  maxDurationSeconds: number;
+  /** 0 for no limit. */
+  maxSizeBytes: number;
+}
+
+/**
+ * Records the live video at the output size by drawing it onto a canvas with the capture fit mode
+ * and feeding the canvas stream to MediaRecorder.
+ */
+export function useClipRecorder() {
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [elapsedMs, setElapsedMs] = useState<number>(0);
+  const [recordedBytes, setRecordedBytes] = useState<number>(0);
+  const stopRef = useRef<((reason: ClipStopReason) => void) | null>(null);
+
+  const start = useCallback((options: ClipRecordingOptions) => new Promise<RecordedClip>((resolve, reject) => {
+    const { video, settings, format, maxDurationSeconds, maxSizeBytes } = options;
+    const canvas = document.createElement('canvas');
+    canvas.width = settings.width;
+    canvas.height = settings.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Could not get canvas context.'));
+      return;
+    }
+
+    let animationFrame = 0;
+    const drawFrame = () => {
+      if (video.videoWidth && video.videoHeight) {
+        drawFitted(context, video, video.videoWidth, video.videoHeight, settings.fitMode, settings.fillColor);
+      }
+      animationFrame = requestAnimationFrame(drawFrame);
+    };
+    drawFrame();
+
+    const canvasStream = canvas.captureStream(RECORDING_FPS);
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(canvasStream, { mimeType: format.mimeType });
+    } catch (e) {
+      cancelAnimationFrame(animationFrame);
+      canvasStream.getTracks().forEach(track => track.stop());
+      reject(e);
+      return;
+    }
+
+    const chunks: Blob[] = [];
+    let bytes = 0;
+    let stoppedBy: ClipStopReason = 'user';
+    const startedAt = Date.now();
+
+    const stop = (reason: ClipStopReason) => {
+      if (recorder.state === 'inactive') return;
+      stoppedBy = reason;
+      recorder.stop();
+    };
+    stopRef.current = stop;
+
+    const ticker = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setElapsedMs(elapsed);
+      if (maxDurationSeconds > 0 && elapsed >= maxDurationSeconds * 1000) stop('duration');
+    }, 200);
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      chunks.push(event.data);
+      bytes += event.data.size;
+      setRecordedBytes(bytes);
+      // stop() flushes one more chunk, so stop while there is still room for an average one.
+      if (maxSizeBytes > 0 && bytes + bytes / chunks.length > maxSizeBytes) stop('size');
+    };
+    recorder.onstop = () => {
+      clearInterval(ticker);
+      cancelAnimationFrame(animationFrame);
+      canvasStream.getTracks().forEach(track => track.stop());
+      stopRef.current = null;
+      setIsRecording(false);
+      resolve({
+        blob: new Blob(chunks, { type: getContainerMimeType(format.mimeType) }),
+        format,
+        durationMs: Date.now() - startedAt,
+        stoppedBy,
+      });
+    };
+
+    setElapsedMs(0);
+    setRecordedBytes(0);
+    setIsRecording(true);
+    recorder.start(RECORDER_TIMESLICE_MS);
+  }), []);
+
+  const stop = useCallback(() => {
+    stopRef.current?.('user');
+  }, []);
+
+  useEffect(() => () => stopRef.current?.('user'), []);
+
+  return { isRecording, elapsedMs, recordedBytes, start, stop };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * A cancellable one-second countdown. `start` resolves to true when the countdown reaches zero
+ * and to false when it is cancelled (or replaced by another `start`).
+ */
+export function useCountdown() {
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  const start = useCallback((seconds: number, onTick?: (remaining: number) => void) => {
+    cancelRef.current?.();
+    return new Promise<boolean>(resolve => {
+      let left = Math.max(1, Math.round(seconds));
+      setRemaining(left);
+      onTick?.(left);
+
+      const timer = setInterval(() => {
+        left -= 1;
+        if (left <= 0) {
+          clearInterval(timer);
+          cancelRef.current = null;
+          setRemaining(null);
+          resolve(true);
+          return;
+        }
+        setRemaining(left);
+        onTick?.(left);
+      }, 1000);
+
+      cancelRef.current = () => {
+        clearInterval(timer);
+        cancelRef.current = null;
+        setRemaining(null);
+        resolve(false);
+      };
+    });
+  }, []);
+
+  const cancel = useCallback(() => {
+    cancelRef.current?.();
+  }, []);
+
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  return { remaining, isRunning: remaining !== null, start, cancel };
+}
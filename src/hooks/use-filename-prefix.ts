@@ -0,0 +1,43 @@
+import { useCallback, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { generateImageName, type GenerateImageNameInput } from '@/ai/flows/generate-image-name-flow';
+import type { PixsnapSettings } from '@/lib/pixsnap/settings';
+
+/** Asks Genkit for a filename prefix, reporting progress and failures through toasts. */
+export function useFilenamePrefix() {
+  const { toast } = useToast();
+  const [isGeneratingName, setIsGeneratingName] = useState<boolean>(false);
+
+  /** Resolves to null (after telling the user) when no prefix could be generated. */
+  const resolveFilenamePrefix = useCallback(async (
+    settings: Pick<PixsnapSettings, 'width' | 'height' | 'format'>,
+    fileFormat?: string
+  ): Promise<string | null> => {
+    setIsGeneratingName(true);
+    toast({ title: 'Generating Filename', description: 'Getting a creative name for your image...', duration: 3000 });
+
+    try {
+      const genkitInput: GenerateImageNameInput = {
+        settings: {
+          width: settings.width,
+          height: settings.height,
+          format: fileFormat ?? settings.format,
+        },
+        timestamp: new Date().toISOString(),
+      };
+      const response = await generateImageName(genkitInput);
+      if (response && response.suggestedNamePrefix) {
+        return response.suggestedNamePrefix;
+      }
+      toast({ title: 'Filename Generation Failed', description: 'Using default filename.', variant: 'destructive', duration: 3000 });
+    } catch (error) {
+      console.error('Error generating filename with Genkit:', error);
+      toast({ title: 'Filename Generation Error', description: 'Using default filename. Check console for details.', variant: 'destructive', duration: 5000 });
+    } finally {
+      setIsGeneratingName(false);
+    }
+    return null;
+  }, [toast]);
+
+  return { isGeneratingName, resolveFilenamePrefix };
+}
@@ -0,0 +1,46 @@
+import type { RefObject } from 'react';
+import { useEffect, useRef } from 'react';
+import { getDownscaleFactor } from '@/lib/pixsnap/frames';
+
+export interface FrameSamplerOptions {
+  enabled: boolean;
+  intervalMs?: number;
+  /** Longest side of the sampled frame; analysis doesn't need full resolution. */
+  maxDimension?: number;
+}
+
+/**
+ * Periodically copies the live video into a small offscreen canvas and hands its pixels to
+ * `onSample`. Frames are skipped while the video has nothing to show.
+ */
+export function useFrameSampler(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  onSample: (frame: ImageData) => void,
+  { enabled, intervalMs = 250, maxDimension = 240 }: FrameSamplerOptions
+) {
+  const onSampleRef = useRef(onSample);
+  onSampleRef.current = onSample;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return;
+
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth || !video.videoHeight) return;
+      const scale = getDownscaleFactor(video.videoWidth, video.videoHeight, maxDimension);
+      const width = Math.max(1, Math.round(video.videoWidth * scale));
+      const height = Math.max(1, Math.round(video.videoHeight * scale));
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      context.drawImage(video, 0, 0, width, height);
+      onSampleRef.current(context.getImageData(0, 0, width, height));
+    }, intervalMs);
+
+    return () => clearInterval(timer);
+  }, [videoRef, enabled, intervalMs, maxDimension]);
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+
+/** Tracks the device position while `enabled`, formatted as "lat, lon". Null until a fix arrives or if denied. */
+export function useGeolocation(enabled: boolean) {
+  const [location, setLocation] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (!navigator.geolocation) {
+      setError('Geolocation is not supported by this browser.');
+      return;
+    }
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setLocation(`${position.coords.latitude.toFixed(5)}, ${position.coords.longitude.toFixed(5)}`);
+        setError(null);
+      },
+      (err) => setError(err.message),
+      { enableHighAccuracy: true, maximumAge: 30000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled]);
+
+  return { location, error };
+}
@@ -0,0 +1,83 @@
+import type { ChangeEvent } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getImageFromDataTransfer, isImportableImage } from '@/lib/pixsnap/import';
+
+/**
+ * Accepts images dropped anywhere on the window, pasted from the clipboard, or picked through a
+ * hidden file input (wire `fileInputRef` / `handleFileInputChange` to an `<input type="file">`).
+ */
+export function useImageImport(onImport: (file: File) => void, onReject: () => void, enabled = true) {
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onImportRef = useRef(onImport);
+  const onRejectRef = useRef(onReject);
+  onImportRef.current = onImport;
+  onRejectRef.current = onReject;
+
+  useEffect(() => {
+    if (!enabled) {
+      setIsDragging(false);
+      return;
+    }
+    // dragenter/dragleave fire for every child element, so count them to know when the drag really left.
+    let dragDepth = 0;
+    const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes('Files');
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepth++;
+      setIsDragging(true);
+    };
+    const handleDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepth = Math.max(0, dragDepth - 1);
+      if (dragDepth === 0) setIsDragging(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepth = 0;
+      setIsDragging(false);
+      const file = getImageFromDataTransfer(e.dataTransfer);
+      if (file) onImportRef.current(file);
+      else onRejectRef.current();
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = getImageFromDataTransfer(e.clipboardData);
+      if (!file) return; // let ordinary text pastes through
+      e.preventDefault();
+      onImportRef.current(file);
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [enabled]);
+
+  const openFilePicker = useCallback(() => {
+    fileInputRef.current?.click();
+  }, []);
+
+  const handleFileInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file) return;
+    if (isImportableImage(file)) onImportRef.current(file);
+    else onRejectRef.current();
+  }, []);
+
+  return { isDragging, fileInputRef, openFilePicker, handleFileInputChange };
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { EncodedFrame } from '@/lib/pixsnap/frames';
+
+export type IntervalStopCondition = 'count' | 'duration';
+
+export interface IntervalCaptureOptions {
+  intervalSeconds: number;
+  stopCondition: IntervalStopCondition;
+  /** Number of shots for 'count', minutes for 'duration'. */
+  stopValue: number;
+}
+
+interface IntervalRun {
+  cancelled: boolean;
+  wake?: () => void;
+}
+
+/**
+ * Takes a shot every `intervalSeconds` until the count or duration is reached or `stop` is called.
+ * Shots are scheduled from the start time, so slow captures don't make the sequence drift.
+ */
+export function useIntervalCapture(captureFrame: () => EncodedFrame | null) {
+  const [frames, setFrames] = useState<EncodedFrame[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [nextShotAt, setNextShotAt] = useState<number | null>(null);
+  const runRef = useRef<IntervalRun | null>(null);
+  const captureFrameRef = useRef(captureFrame);
+  captureFrameRef.current = captureFrame;
+
+  /** Runs the session and resolves with the number of frames captured. */
+  const start = useCallback(async (options: IntervalCaptureOptions): Promise<number> => {
+    if (runRef.current) return 0;
+    const run: IntervalRun = { cancelled: false };
+    runRef.current = run;
+    setFrames([]);
+    setIsRunning(true);
+
+    const intervalMs = Math.max(1, options.intervalSeconds) * 1000;
+    const startedAt = Date.now();
+    const maxShots = options.stopCondition === 'count' ? options.stopValue : Infinity;
+    const endsAt = options.stopCondition === 'duration' ? startedAt + options.stopValue * 60_000 : Infinity;
+
+    let shots = 0;
+    let captured = 0;
+    while (!run.cancelled && shots < maxShots) {
+      const frame = captureFrameRef.current();
+      if (frame) {
+        captured++;
+        setFrames(prev => [...prev, frame]);
+      }
+      shots++;
+
+      const scheduledAt = startedAt + shots * intervalMs;
+      if (shots >= maxShots || scheduledAt > endsAt) break;
+      setNextShotAt(scheduledAt);
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, Math.max(0, scheduledAt - Date.now()));
+        run.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+
+    runRef.current = null;
+    setNextShotAt(null);
+    setIsRunning(false);
+    return captured;
+  }, []);
+
+  const stop = useCallback(() => {
+    const run = runRef.current;
+    if (!run) return;
+    run.cancelled = true;
+    run.wake?.();
+  }, []);
+
+  useEffect(() => () => {
+    if (runRef.current) {
+      runRef.current.cancelled = true;
+      runRef.current.wake?.();
+    }
+  }, []);
+
+  return { frames, setFrames, isRunning, nextShotAt, start, stop };
+}
@@ -0,0 +1,109 @@
+import type { RefObject } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useFrameSampler } from '@/hooks/use-frame-sampler';
+import type { EncodedFrame } from '@/lib/pixsnap/frames';
+import type { Rect } from '@/lib/pixsnap/transform';
+import { extractRegionLuma, getMotionTriggerFraction, measureMotion } from '@/lib/pixsnap/motion';
+
+export interface MotionCaptureOptions {
+  /** Watched part of the video frame as fractions of its size; null watches everything. */
+  region: Rect | null;
+  sensitivity: number;
+  cooldownSeconds: number;
+  maxShots: number;
+}
+
+interface MotionRun {
+  options: MotionCaptureOptions;
+  previous: Float32Array | null;
+  cooldownUntil: number;
+  shots: number;
+  finish: () => void;
+}
+
+/**
+ * Watches the live video for motion inside a region and takes a shot each time it crosses the
+ * sensitivity threshold, then waits out the cooldown. Stops after `maxShots` or on `stop`.
+ */
+export function useMotionCapture(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  captureFrame: () => EncodedFrame | null,
+  onCapture: (frame: EncodedFrame) => void
+) {
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [shotCount, setShotCount] = useState<number>(0);
+  const [motionLevel, setMotionLevel] = useState<number>(0);
+  const [lastTriggeredAt, setLastTriggeredAt] = useState<number | null>(null);
+  // Browsers throttle timers in background tabs to a second or slower, so motion can be missed while hidden.
+  const [isPageHidden, setIsPageHidden] = useState<boolean>(false);
+  const runRef = useRef<MotionRun | null>(null);
+  const captureFrameRef = useRef(captureFrame);
+  const onCaptureRef = useRef(onCapture);
+  captureFrameRef.current = captureFrame;
+  onCaptureRef.current = onCapture;
+
+  useFrameSampler(videoRef, (frame) => {
+    const run = runRef.current;
+    if (!run) return;
+    const current = extractRegionLuma(frame, run.options.region);
+    const level = run.previous ? measureMotion(run.previous, current) : 0;
+    run.previous = current;
+    setMotionLevel(level);
+
+    const now = Date.now();
+    if (now < run.cooldownUntil || level < getMotionTriggerFraction(run.options.sensitivity)) return;
+    const shot = captureFrameRef.current();
+    if (!shot) return;
+    run.shots++;
+    run.cooldownUntil = now + run.options.cooldownSeconds * 1000;
+    setShotCount(run.shots);
+    setLastTriggeredAt(now);
+    onCaptureRef.current(shot);
+    if (run.shots >= run.options.maxShots) run.finish();
+  }, { enabled: isRunning, intervalMs: 200, maxDimension: 160 });
+
+  useEffect(() => {
+    if (!isRunning) {
+      setIsPageHidden(false);
+      return;
+    }
+    const handleVisibilityChange = () => setIsPageHidden(document.visibilityState === 'hidden');
+    handleVisibilityChange();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [isRunning]);
+
+  /** Watches until stopped or the shot limit is reached; resolves with the number of shots. */
+  const start = useCallback((options: MotionCaptureOptions): Promise<number> => {
+    if (runRef.current) return Promise.resolve(0);
+    setShotCount(0);
+    setMotionLevel(0);
+    setLastTriggeredAt(null);
+    setIsRunning(true);
+    return new Promise<number>(resolve => {
+      const run: MotionRun = {
+        options,
+        previous: null,
+        cooldownUntil: 0,
+        shots: 0,
+        finish: () => {
+          if (runRef.current !== run) return;
+          runRef.current = null;
+          setIsRunning(false);
+          resolve(run.shots);
+        },
+      };
+      runRef.current = run;
+    });
+  }, []);
+
+  const stop = useCallback(() => {
+    runRef.current?.finish();
+  }, []);
+
+  useEffect(() => () => {
+    runRef.current?.finish();
+  }, []);
+
+  return { isRunning, shotCount, motionLevel, lastTriggeredAt, isPageHidden, start, stop };
+}
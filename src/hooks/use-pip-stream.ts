@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PipSource } from '@/lib/pixsnap/pip';
+
+/**
+ * Owns the second MediaStream used for the picture-in-picture inset, separately from the main
+ * camera/screen stream so either can be restarted without touching the other.
+ * `onEnded` fires when the browser ends the stream (e.g. the user stops screen sharing).
+ */
+export function usePipStream(onEnded: () => void) {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [source, setSource] = useState<PipSource | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+
+  const stop = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setStream(null);
+    setSource(null);
+  }, []);
+
+  const start = useCallback(async (nextSource: PipSource, size: { width: number; height: number }) => {
+    stop();
+    const newStream = nextSource.kind === 'screen'
+      ? await navigator.mediaDevices.getDisplayMedia({ video: { width: { ideal: size.width }, height: { ideal: size.height } }, audio: false })
+      : await navigator.mediaDevices.getUserMedia({
+          video: { deviceId: { exact: nextSource.deviceId }, width: { ideal: size.width }, height: { ideal: size.height } },
+        });
+    newStream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (streamRef.current !== newStream) return;
+      streamRef.current = null;
+      setStream(null);
+      setSource(null);
+      onEndedRef.current();
+    });
+    streamRef.current = newStream;
+    setStream(newStream);
+    setSource(nextSource);
+  }, [stop]);
+
+  useEffect(() => () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+  }, []);
+
+  return { stream, source, start, stop };
+}
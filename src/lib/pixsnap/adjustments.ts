@@ -0,0 +1,156 @@
+/**
+ * Tone and color adjustments applied between capture and encoding. They are kept as plain
+ * parameters so the same look can be re-applied whenever an output is re-rendered.
+ */
+export interface ImageAdjustments {
+  /** Stops of exposure, -2..2. */
+  exposure: number;
+  /** -100..100 for all the signed sliders below. */
+  contrast: number;
+  saturation: number;
+  temperature: number;
+  tint: number;
+  grayscale: boolean;
+  sepia: boolean;
+  /** Unsharp mask strength, 0..100. */
+  sharpenAmount: number;
+  /** Unsharp mask blur radius in output pixels. */
+  sharpenRadius: number;
+}
+
+export type AdjustmentSliderKey = Exclude<keyof ImageAdjustments, 'grayscale' | 'sepia'>;
+
+export const ADJUSTMENT_SLIDERS: Record<AdjustmentSliderKey, { label: string; min: number; max: number; step: number; unit?: string }> = {
+  exposure: { label: 'Exposure', min: -2, max: 2, step: 0.1, unit: 'EV' },
+  contrast: { label: 'Contrast', min: -100, max: 100, step: 1 },
+  saturation: { label: 'Saturation', min: -100, max: 100, step: 1 },
+  temperature: { label: 'Temperature', min: -100, max: 100, step: 1 },
+  tint: { label: 'Tint', min: -100, max: 100, step: 1 },
+  sharpenAmount: { label: 'Sharpen', min: 0, max: 100, step: 1 },
+  sharpenRadius: { label: 'Sharpen Radius', min: 1, max: 5, step: 0.5, unit: 'px' },
+};
+export const ADJUSTMENT_SLIDER_KEYS_ORDERED: AdjustmentSliderKey[] = [
+  'exposure', 'contrast', 'saturation', 'temperature', 'tint', 'sharpenAmount', 'sharpenRadius',
+];
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  tint: 0,
+  grayscale: false,
+  sepia: false,
+  sharpenAmount: 0,
+  sharpenRadius: 1.5,
+};
+
+/** True when applying the adjustments would leave the image unchanged. */
+export const isNeutralAdjustments = (adjustments: ImageAdjustments) =>
+  adjustments.exposure === 0 && adjustments.contrast === 0 && adjustments.saturation === 0
+  && adjustments.temperature === 0 && adjustments.tint === 0 && !adjustments.grayscale
+  && !adjustments.sepia && adjustments.sharpenAmount === 0;
+
+/**
+ * Applies the adjustments to the canvas in place. `scale` is the canvas size relative to the
+ * output, so a downscaled preview sharpens with a proportionally smaller radius.
+ */
+export function applyAdjustments(canvas: HTMLCanvasElement, adjustments: ImageAdjustments, scale = 1) {
+  if (isNeutralAdjustments(adjustments)) return;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return;
+  const { width, height } = canvas;
+  const image = context.getImageData(0, 0, width, height);
+  const data = image.data;
+
+  if (adjustments.sharpenAmount > 0) {
+    unsharpMask(data, width, height, adjustments.sharpenAmount / 50, Math.max(1, adjustments.sharpenRadius * scale));
+  }
+
+  const gain = Math.pow(2, adjustments.exposure);
+  // Warm/cool shifts red against blue; tint shifts green against magenta.
+  const redShift = adjustments.temperature * 0.3;
+  const blueShift = -adjustments.temperature * 0.3;
+  const greenShift = -adjustments.tint * 0.3;
+  const contrast = adjustments.contrast >= 0 ? 1 + adjustments.contrast / 50 : 1 + adjustments.contrast / 100;
+  const saturation = 1 + adjustments.saturation / 100;
+
+  for (let p = 0; p < data.length; p += 4) {
+    let r = data[p] * gain + redShift;
+    let g = data[p + 1] * gain + greenShift;
+    let b = data[p + 2] * gain + blueShift;
+
+    r = (r - 128) * contrast + 128;
+    g = (g - 128) * contrast + 128;
+    b = (b - 128) * contrast + 128;
+
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    if (adjustments.grayscale) {
+      r = g = b = luma;
+    } else if (saturation !== 1) {
+      r = luma + (r - luma) * saturation;
+      g = luma + (g - luma) * saturation;
+      b = luma + (b - luma) * saturation;
+    }
+
+    if (adjustments.sepia) {
+      const sr = 0.393 * r + 0.769 * g + 0.189 * b;
+      const sg = 0.349 * r + 0.686 * g + 0.168 * b;
+      const sb = 0.272 * r + 0.534 * g + 0.131 * b;
+      r = sr;
+      g = sg;
+      b = sb;
+    }
+
+    data[p] = r;
+    data[p + 1] = g;
+    data[p + 2] = b;
+  }
+  context.putImageData(image, 0, 0);
+}
+
+/**
+ * original + amount * (original - blurred), with a separable box blur standing in for a Gaussian.
+ * A fractional radius gives the two pixels just outside the whole-pixel window a partial weight,
+ * so half-pixel radius steps make a visible difference.
+ */
+function unsharpMask(data: Uint8ClampedArray, width: number, height: number, amount: number, radius: number) {
+  const blurred = new Float32Array(width * height * 3);
+  const row = new Float32Array(width * height * 3);
+  const whole = Math.floor(radius);
+  const fraction = radius - whole;
+  const windowSize = radius * 2 + 1;
+  const clampX = (x: number) => Math.min(width - 1, Math.max(0, x));
+  const clampY = (y: number) => Math.min(height - 1, Math.max(0, y));
+
+  for (let y = 0; y < height; y++) {
+    for (let c = 0; c < 3; c++) {
+      const at = (x: number) => data[(y * width + clampX(x)) * 4 + c];
+      let sum = 0;
+      for (let x = -whole; x <= whole; x++) sum += at(x);
+      for (let x = 0; x < width; x++) {
+        row[(y * width + x) * 3 + c] = (sum + fraction * (at(x - whole - 1) + at(x + whole + 1))) / windowSize;
+        sum += at(x + whole + 1) - at(x - whole);
+      }
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    for (let c = 0; c < 3; c++) {
+      const at = (y: number) => row[(clampY(y) * width + x) * 3 + c];
+      let sum = 0;
+      for (let y = -whole; y <= whole; y++) sum += at(y);
+      for (let y = 0; y < height; y++) {
+        blurred[(y * width + x) * 3 + c] = (sum + fraction * (at(y - whole - 1) + at(y + whole + 1))) / windowSize;
+        sum += at(y + whole + 1) - at(y - whole);
+      }
+    }
+  }
+
+  for (let i = 0, p = 0; i < width * height; i++, p += 4) {
+    for (let c = 0; c < 3; c++) {
+      const original = data[p + c];
+      data[p + c] = original + amount * (original - blurred[i * 3 + c]);
+    }
+  }
+}
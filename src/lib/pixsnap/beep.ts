@@ -0,0 +1,27 @@
+let audioContext: AudioContext | null = null;
+
+/** Plays a short sine tone through WebAudio. Silently does nothing where WebAudio is unavailable. */
+export function playBeep(frequency = 880, durationMs = 120, volume = 0.2) {
+  if (typeof window === 'undefined' || !window.AudioContext) return;
+  try {
+    audioContext ??= new AudioContext();
+    if (audioContext.state === 'suspended') {
+      void audioContext.resume();
+    }
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    const now = audioContext.currentTime;
+    const end = now + durationMs / 1000;
+
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    // Short fade-out avoids an audible click when the tone stops.
+    gain.gain.setValueAtTime(volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(now);
+    oscillator.stop(end);
+  } catch (e) {
+    console.error("Error playing beep:", e);
+  }
+}
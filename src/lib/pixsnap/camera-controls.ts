@@ -0,0 +1,194 @@
+// Camera controls from the Media Capture Image spec. lib.dom doesn't declare them yet.
+interface MediaSettingsRange {
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+interface ImageTrackCapabilities extends MediaTrackCapabilities {
+  zoom?: MediaSettingsRange;
+  focusDistance?: MediaSettingsRange;
+  exposureCompensation?: MediaSettingsRange;
+  exposureTime?: MediaSettingsRange;
+  colorTemperature?: MediaSettingsRange;
+  brightness?: MediaSettingsRange;
+  torch?: boolean;
+  focusMode?: string[];
+  exposureMode?: string[];
+  whiteBalanceMode?: string[];
+}
+
+interface ImageTrackSettings extends MediaTrackSettings {
+  zoom?: number;
+  focusDistance?: number;
+  exposureCompensation?: number;
+  exposureTime?: number;
+  colorTemperature?: number;
+  brightness?: number;
+  torch?: boolean;
+}
+
+type ImageTrackConstraintSet = MediaTrackConstraintSet & Partial<Record<CameraControlKey, number>> & {
+  torch?: boolean;
+  focusMode?: string;
+  exposureMode?: string;
+  whiteBalanceMode?: string;
+};
+
+export type CameraControlKey = 'zoom' | 'focusDistance' | 'exposureCompensation' | 'exposureTime' | 'colorTemperature' | 'brightness';
+
+type ControlModeKey = 'focusMode' | 'exposureMode' | 'whiteBalanceMode';
+type ControlMode = 'manual' | 'continuous';
+
+/** exposureTime is in units of 100 µs. */
+function formatExposureTime(value: number): string {
+  const seconds = value / 10000;
+  return seconds >= 1 ? `${seconds.toFixed(1)} s` : `1/${Math.round(1 / seconds)} s`;
+}
+
+export const CAMERA_CONTROLS: Record<CameraControlKey, {
+  label: string;
+  format: (value: number) => string;
+  /** Auto mode that has to be switched to `mode` before the value takes effect. */
+  modeKey?: ControlModeKey;
+  mode?: ControlMode;
+}> = {
+  zoom: { label: 'Zoom', format: value => `${value.toFixed(1)}x` },
+  focusDistance: { label: 'Focus Distance', format: value => `${value.toFixed(2)} m`, modeKey: 'focusMode', mode: 'manual' },
+  // Compensation biases the automatic metering; in manual exposure the camera ignores it and uses exposureTime.
+  exposureCompensation: { label: 'Exposure', format: value => `${value > 0 ? '+' : ''}${value.toFixed(1)} EV`, modeKey: 'exposureMode', mode: 'continuous' },
+  exposureTime: { label: 'Shutter (locks exposure)', format: formatExposureTime, modeKey: 'exposureMode', mode: 'manual' },
+  colorTemperature: { label: 'White Balance', format: value => `${Math.round(value)} K`, modeKey: 'whiteBalanceMode', mode: 'manual' },
+  brightness: { label: 'Brightness', format: value => `${Math.round(value)}` },
+};
+export const CAMERA_CONTROL_KEYS_ORDERED: CameraControlKey[] = ['zoom', 'focusDistance', 'exposureCompensation', 'exposureTime', 'colorTemperature', 'brightness'];
+
+export interface CameraControlRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface CameraControlSupport {
+  ranges: Partial<Record<CameraControlKey, CameraControlRange>>;
+  torch: boolean;
+  /** Modes each auto-mode setting accepts, for the ones that offer 'manual'. */
+  modes: Partial<Record<ControlModeKey, string[]>>;
+}
+
+export type CameraControlValues = Partial<Record<CameraControlKey, number>> & { torch?: boolean };
+
+/** What the track can do; controls the camera doesn't report are left out. */
+export function getCameraControlSupport(track: MediaStreamTrack): CameraControlSupport {
+  const capabilities = (track.getCapabilities?.() ?? {}) as ImageTrackCapabilities;
+  const ranges: CameraControlSupport['ranges'] = {};
+  for (const key of CAMERA_CONTROL_KEYS_ORDERED) {
+    const range = capabilities[key];
+    if (range && typeof range.min === 'number' && typeof range.max === 'number' && range.max > range.min) {
+      ranges[key] = { min: range.min, max: range.max, step: range.step || (range.max - range.min) / 100 };
+    }
+  }
+  const modes: CameraControlSupport['modes'] = {};
+  for (const modeKey of ['focusMode', 'exposureMode', 'whiteBalanceMode'] as ControlModeKey[]) {
+    if (capabilities[modeKey]?.includes('manual')) modes[modeKey] = capabilities[modeKey];
+  }
+  return { ranges, torch: capabilities.torch === true, modes };
+}
+
+export const hasCameraControls = (support: CameraControlSupport) =>
+  support.torch || Object.keys(support.ranges).length > 0;
+
+export function getCameraControlValues(track: MediaStreamTrack, support: CameraControlSupport): CameraControlValues {
+  const settings = track.getSettings() as ImageTrackSettings;
+  const values: CameraControlValues = {};
+  for (const key of CAMERA_CONTROL_KEYS_ORDERED) {
+    const value = settings[key];
+    if (support.ranges[key] && typeof value === 'number') values[key] = value;
+  }
+  if (support.torch) values.torch = settings.torch === true;
+  return values;
+}
+
+/**
+ * applyConstraints() replaces the whole constraint set, so merge into what the track already has;
+ * otherwise the ideal width/height requested at startup would be dropped and the resolution could change.
+ */
+function applyConstraintSet(track: MediaStreamTrack, constraintSet: ImageTrackConstraintSet) {
+  const current = track.getConstraints();
+  const previousSet = current.advanced?.[0] ?? {};
+  return track.applyConstraints({ ...current, advanced: [{ ...previousSet, ...constraintSet }] });
+}
+
+/**
+ * Applies the supported subset of `values`, switching focus, exposure and white balance to the
+ * mode each value belongs to: manual values don't hold while the camera keeps re-metering, and
+ * exposure compensation only means something while it does.
+ */
+export async function applyCameraControls(track: MediaStreamTrack, support: CameraControlSupport, values: CameraControlValues) {
+  const constraintSet: ImageTrackConstraintSet = {};
+  for (const key of CAMERA_CONTROL_KEYS_ORDERED) {
+    const range = support.ranges[key];
+    const value = values[key];
+    if (!range || value === undefined) continue;
+    constraintSet[key] = Math.min(range.max, Math.max(range.min, value));
+    const { modeKey, mode } = CAMERA_CONTROLS[key];
+    if (modeKey && mode && support.modes[modeKey]?.includes(mode)) constraintSet[modeKey] = mode;
+  }
+  if (support.torch && values.torch !== undefined) constraintSet.torch = values.torch;
+  if (Object.keys(constraintSet).length === 0) return;
+  await applyConstraintSet(track, constraintSet);
+}
+
+/** Hands focus, exposure and white balance back to the camera's automatic modes. */
+export async function restoreAutoModes(track: MediaStreamTrack, support: CameraControlSupport) {
+  const modeKeys = Object.keys(support.modes) as ControlModeKey[];
+  if (modeKeys.length === 0) return;
+  const current = track.getConstraints();
+  // Drop the manual values too; they would fight the automatic modes.
+  const { focusDistance, exposureTime, colorTemperature, ...previousSet } = (current.advanced?.[0] ?? {}) as ImageTrackConstraintSet; // eslint-disable-line @typescript-eslint/no-unused-vars
+  const constraintSet: ImageTrackConstraintSet = { ...previousSet };
+  for (const modeKey of modeKeys) constraintSet[modeKey] = 'continuous';
+  await track.applyConstraints({ ...current, advanced: [constraintSet] });
+}
+
+const CAMERA_CONTROLS_STORAGE_KEY = 'pixsnap.cameraControls';
+
+function readStoredControls(): Record<string, CameraControlValues> {
+  try {
+    const raw = window.localStorage.getItem(CAMERA_CONTROLS_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export const loadCameraControls = (deviceId: string): CameraControlValues => readStoredControls()[deviceId] ?? {};
+
+/**
+ * Merges changed values into saved ones, forgetting saved values that need another mode of the same
+ * setting (exposure compensation vs. shutter time), so the last one the user touched wins on restore.
+ */
+export function mergeCameraControls(saved: CameraControlValues, changes: CameraControlValues): CameraControlValues {
+  const merged: CameraControlValues = { ...saved };
+  for (const key of CAMERA_CONTROL_KEYS_ORDERED) {
+    if (changes[key] === undefined) continue;
+    const { modeKey, mode } = CAMERA_CONTROLS[key];
+    for (const other of CAMERA_CONTROL_KEYS_ORDERED) {
+      if (modeKey && CAMERA_CONTROLS[other].modeKey === modeKey && CAMERA_CONTROLS[other].mode !== mode) delete merged[other];
+    }
+  }
+  return { ...merged, ...changes };
+}
+
+/** Saves the values for one camera; `null` forgets them. */
+export function saveCameraControls(deviceId: string, values: CameraControlValues | null) {
+  const stored = readStoredControls();
+  if (values) stored[deviceId] = values;
+  else delete stored[deviceId];
+  try {
+    window.localStorage.setItem(CAMERA_CONTROLS_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Not remembering the controls is harmless.
+  }
+}
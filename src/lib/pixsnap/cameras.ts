@@ -0,0 +1,51 @@
+export type FacingMode = 'user' | 'environment';
+
+/** Which camera to open: the browser default, a specific device, or whatever faces a given way. */
+export type CameraSelection =
+  | { kind: 'default' }
+  | { kind: 'device'; deviceId: string }
+  | { kind: 'facing'; facingMode: FacingMode };
+
+export const FACING_MODES: Record<FacingMode, { label: string }> = {
+  user: { label: 'Front Camera' },
+  environment: { label: 'Back Camera' },
+};
+export const FACING_MODE_KEYS_ORDERED: FacingMode[] = ['user', 'environment'];
+
+const LAST_CAMERA_STORAGE_KEY = 'pixsnap.lastCameraId';
+
+export function loadLastCameraSelection(): CameraSelection {
+  try {
+    const deviceId = window.localStorage.getItem(LAST_CAMERA_STORAGE_KEY);
+    if (deviceId) return { kind: 'device', deviceId };
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies); fall back to the default camera.
+  }
+  return { kind: 'default' };
+}
+
+export function saveLastCameraId(deviceId: string) {
+  try {
+    window.localStorage.setItem(LAST_CAMERA_STORAGE_KEY, deviceId);
+  } catch {
+    // Not remembering the camera is harmless.
+  }
+}
+
+/** Labels are empty until camera permission has been granted, so number the unnamed ones. */
+export const getCameraLabel = (cameras: MediaDeviceInfo[], deviceId: string | null): string | null => {
+  const index = cameras.findIndex(camera => camera.deviceId === deviceId);
+  if (index === -1) return null;
+  return cameras[index].label || `Camera ${index + 1}`;
+};
+
+/** Video constraint for a selection; a remembered device that is no longer plugged in falls back to the default. */
+export function getCameraConstraint(selection: CameraSelection, cameras: MediaDeviceInfo[]): MediaTrackConstraints {
+  if (selection.kind === 'device' && cameras.some(camera => camera.deviceId === selection.deviceId)) {
+    return { deviceId: { exact: selection.deviceId } };
+  }
+  if (selection.kind === 'facing') {
+    return { facingMode: { ideal: selection.facingMode } };
+  }
+  return {};
+}
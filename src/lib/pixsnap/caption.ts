@@ -0,0 +1,83 @@
+import { format } from 'date-fns';
+import type { CaptionSettings } from '@/lib/pixsnap/settings';
+
+export interface CaptionContext {
+  capturedAt: Date;
+  device: string;
+  note: string;
+  /** "lat, lon" when known. */
+  location: string | null;
+}
+
+/** Placeholders understood by `formatCaption`, for help text. */
+export const CAPTION_FIELDS: { token: string; description: string }[] = [
+  { token: '{date}', description: 'Capture date, e.g. 2024-05-31' },
+  { token: '{time}', description: 'Capture time, e.g. 14:05:09' },
+  { token: '{date:PATTERN}', description: 'Capture time in any date-fns pattern, e.g. {date:dd MMM yyyy HH:mm}' },
+  { token: '{device}', description: 'Camera name, or Screen' },
+  { token: '{note}', description: 'The note text' },
+  { token: '{location}', description: 'GPS coordinates (asks for location permission)' },
+];
+
+const DEFAULT_DATE_PATTERN = 'yyyy-MM-dd';
+const DEFAULT_TIME_PATTERN = 'HH:mm:ss';
+const FIELD_PATTERN = /\{(\w+)(?::([^}]+))?\}/g;
+const SEPARATOR = '·';
+
+export const captionUsesLocation = (template: string) => template.includes('{location}');
+
+/**
+ * Fills in the template's placeholders. Unknown placeholders and invalid date patterns are left
+ * as written; empty fields drop out together with their `·` separator. The template is split on
+ * `·` before filling in, so a note that itself contains `·` stays in one piece.
+ */
+export function formatCaption(template: string, context: CaptionContext): string {
+  const fillFields = (part: string) => part.replace(FIELD_PATTERN, (token, field: string, pattern?: string) => {
+    try {
+      switch (field) {
+        case 'date': return format(context.capturedAt, pattern ?? DEFAULT_DATE_PATTERN);
+        case 'time': return format(context.capturedAt, pattern ?? DEFAULT_TIME_PATTERN);
+        case 'device': return context.device;
+        case 'note': return context.note;
+        case 'location': return context.location ?? '';
+        default: return token;
+      }
+    } catch {
+      return token;
+    }
+  });
+  const parts = template.split(SEPARATOR);
+  if (parts.length === 1) return fillFields(template).trim();
+  return parts.map(part => fillFields(part).trim()).filter(Boolean).join(` ${SEPARATOR} `);
+}
+
+/** Draws the caption bar over the top or bottom edge, with the font scaled to the output size. */
+export function drawCaptionBar(canvas: HTMLCanvasElement, caption: CaptionSettings, text: string) {
+  if (!caption.enabled || !text) return;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const { width, height } = canvas;
+  const fontSize = Math.max(10, Math.round(Math.min(width, height) * 0.03));
+  const barHeight = Math.round(fontSize * 1.8);
+  const padding = Math.round(fontSize * 0.6);
+  const barTop = caption.position === 'top' ? 0 : height - barHeight;
+
+  context.save();
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect(0, barTop, width, barHeight);
+  context.font = `500 ${fontSize}px sans-serif`;
+  context.textBaseline = 'middle';
+  context.fillStyle = '#ffffff';
+
+  // Trim long captions so they end in an ellipsis instead of running off the edge.
+  const maxWidth = width - padding * 2;
+  let fitted = text;
+  if (context.measureText(fitted).width > maxWidth) {
+    while (fitted.length > 1 && context.measureText(`${fitted}…`).width > maxWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    fitted = `${fitted.trimEnd()}…`;
+  }
+  context.fillText(fitted, padding, barTop + barHeight / 2);
+  context.restore();
+}
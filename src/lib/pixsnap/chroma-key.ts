@@ -0,0 +1,181 @@
+import { drawFitted } from '@/lib/pixsnap/fit';
+import type { OutputFormat } from '@/lib/pixsnap/settings';
+
+export type ChromaBackground = 'color' | 'image' | 'transparent';
+
+export const CHROMA_BACKGROUNDS: Record<ChromaBackground, { label: string }> = {
+  color: { label: 'Solid Color' },
+  image: { label: 'Image' },
+  transparent: { label: 'Transparent' },
+};
+export const CHROMA_BACKGROUND_KEYS_ORDERED: ChromaBackground[] = ['color', 'image', 'transparent'];
+
+/** Typical chroma green and chroma blue backdrops, as starting points before using the eyedropper. */
+export const CHROMA_KEY_PRESETS: { label: string; color: string }[] = [
+  { label: 'Green', color: '#00b140' },
+  { label: 'Blue', color: '#0047bb' },
+];
+
+export interface ChromaKeyOptions {
+  keyColor: string;
+  /** 0..100; how far from the key color a pixel may be and still be removed. */
+  tolerance: number;
+  /** 0..100; how much of the key color's tint is pulled out of the pixels that remain. */
+  spill: number;
+  background: ChromaBackground;
+  backgroundColor: string;
+}
+
+export const DEFAULT_CHROMA_KEY_OPTIONS: ChromaKeyOptions = {
+  keyColor: CHROMA_KEY_PRESETS[0].color,
+  tolerance: 40,
+  spill: 50,
+  background: 'color',
+  backgroundColor: '#ffffff',
+};
+
+/** Only these formats keep an alpha channel; the others fall back to the solid color. */
+export const supportsTransparency = (format: OutputFormat) => format === 'png' || format === 'webp';
+
+/** Width of the soft edge between keyed and kept pixels, in chroma units. */
+const EDGE_SOFTNESS = 24;
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Makes pixels near the key color transparent and suppresses spill on the rest. Distance is
+ * measured on the Cb/Cr chroma plane, so shadows on the backdrop key out with the lit parts.
+ */
+export function keyImageData(image: ImageData, options: Pick<ChromaKeyOptions, 'keyColor' | 'tolerance' | 'spill'>) {
+  const data = image.data;
+  const [kr, kg, kb] = hexToRgb(options.keyColor);
+  const keyCb = -0.168736 * kr - 0.331264 * kg + 0.5 * kb;
+  const keyCr = 0.5 * kr - 0.418688 * kg - 0.081312 * kb;
+  const threshold = options.tolerance * 1.2;
+  const spill = options.spill / 100;
+  // The backdrop's strongest channel is the one that bleeds onto the subject.
+  const keyChannel = kg >= kr && kg >= kb ? 1 : kb >= kr ? 2 : 0;
+  const otherA = (keyChannel + 1) % 3;
+  const otherB = (keyChannel + 2) % 3;
+
+  for (let p = 0; p < data.length; p += 4) {
+    const r = data[p];
+    const g = data[p + 1];
+    const b = data[p + 2];
+    const cb = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    const cr = 0.5 * r - 0.418688 * g - 0.081312 * b;
+    const distance = Math.hypot(cb - keyCb, cr - keyCr);
+    const alpha = Math.min(1, Math.max(0, (distance - threshold) / EDGE_SOFTNESS));
+    data[p + 3] = data[p + 3] * alpha;
+
+    if (spill > 0) {
+      const limit = Math.max(data[p + otherA], data[p + otherB]);
+      const excess = data[p + keyChannel] - limit;
+      if (excess > 0) data[p + keyChannel] -= excess * spill;
+    }
+  }
+}
+
+/** Fills the canvas with the replacement background; transparent leaves it cleared. */
+function drawChromaBackground(
+  context: CanvasRenderingContext2D,
+  options: ChromaKeyOptions,
+  backgroundImage: HTMLCanvasElement | null,
+  allowTransparency: boolean
+) {
+  const { width, height } = context.canvas;
+  context.clearRect(0, 0, width, height);
+  if (options.background === 'image' && backgroundImage) {
+    drawFitted(context, backgroundImage, backgroundImage.width, backgroundImage.height, 'cover', options.backgroundColor);
+  } else if (options.background !== 'transparent' || !allowTransparency) {
+    context.fillStyle = options.backgroundColor;
+    context.fillRect(0, 0, width, height);
+  }
+}
+
+/** Keys the canvas in place and composites it over the chosen background. */
+export function applyChromaKey(
+  canvas: HTMLCanvasElement,
+  options: ChromaKeyOptions,
+  backgroundImage: HTMLCanvasElement | null,
+  allowTransparency: boolean
+) {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return;
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  keyImageData(image, options);
+
+  const keyed = document.createElement('canvas');
+  keyed.width = canvas.width;
+  keyed.height = canvas.height;
+  keyed.getContext('2d')?.putImageData(image, 0, 0);
+
+  drawChromaBackground(context, options, backgroundImage, allowTransparency);
+  context.drawImage(keyed, 0, 0);
+}
+
+/** Live viewfinder version of `applyChromaKey`; transparency is shown as a checkerboard. */
+export function renderChromaKeyPreview(
+  target: HTMLCanvasElement,
+  frame: ImageData,
+  options: ChromaKeyOptions,
+  backgroundImage: HTMLCanvasElement | null,
+  allowTransparency: boolean
+) {
+  if (target.width !== frame.width || target.height !== frame.height) {
+    target.width = frame.width;
+    target.height = frame.height;
+  }
+  const context = target.getContext('2d');
+  if (!context) return;
+  keyImageData(frame, options);
+  const keyed = document.createElement('canvas');
+  keyed.width = frame.width;
+  keyed.height = frame.height;
+  keyed.getContext('2d')?.putImageData(frame, 0, 0);
+
+  drawChromaBackground(context, options, backgroundImage, allowTransparency);
+  if (options.background === 'transparent' && allowTransparency) {
+    const cell = Math.max(4, Math.round(Math.min(frame.width, frame.height) / 24));
+    for (let y = 0; y < frame.height; y += cell) {
+      for (let x = 0; x < frame.width; x += cell) {
+        context.fillStyle = (x / cell + y / cell) % 2 === 0 ? '#cccccc' : '#ffffff';
+        context.fillRect(x, y, cell, cell);
+      }
+    }
+  }
+  context.drawImage(keyed, 0, 0);
+}
+
+/**
+ * Average color of a small patch of the live video around a point given as fractions of the
+ * frame, for picking the key color. Returns null if the video has no frame yet.
+ */
+export function sampleVideoColor(video: HTMLVideoElement, x: number, y: number, patchSize = 7): string | null {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = patchSize;
+  canvas.height = patchSize;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  const sx = Math.min(video.videoWidth - patchSize, Math.max(0, Math.round(x * video.videoWidth - patchSize / 2)));
+  const sy = Math.min(video.videoHeight - patchSize, Math.max(0, Math.round(y * video.videoHeight - patchSize / 2)));
+  context.drawImage(video, sx, sy, patchSize, patchSize, 0, 0, patchSize, patchSize);
+  const data = context.getImageData(0, 0, patchSize, patchSize).data;
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  for (let p = 0; p < data.length; p += 4) {
+    r += data[p];
+    g += data[p + 1];
+    b += data[p + 2];
+  }
+  const count = data.length / 4;
+  return toHex(r / count, g / count, b / count);
+}
@@ -0,0 +1,107 @@
+import { drawFitted } from '@/lib/pixsnap/fit';
+import type { Rect } from '@/lib/pixsnap/transform';
+
+export type CollageLayout = 'grid' | 'strip' | 'hero';
+
+export const COLLAGE_LAYOUTS: Record<CollageLayout, { label: string; shots: number }> = {
+  grid: { label: '2x2 Grid', shots: 4 },
+  strip: { label: '4-Strip', shots: 4 },
+  hero: { label: '1 Large + 3 Small', shots: 4 },
+};
+export const COLLAGE_LAYOUT_KEYS_ORDERED: CollageLayout[] = ['grid', 'strip', 'hero'];
+
+export interface CollageOptions {
+  layout: CollageLayout;
+  /** Space between and around the shots, as a percentage of the shorter output side. */
+  gutterPercent: number;
+  backgroundColor: string;
+  footerText: string;
+}
+
+export const MAX_COLLAGE_GUTTER_PERCENT = 10;
+
+export const DEFAULT_COLLAGE_OPTIONS: CollageOptions = {
+  layout: 'grid',
+  gutterPercent: 2,
+  backgroundColor: '#ffffff',
+  footerText: '',
+};
+
+/**
+ * Cell rectangles for each shot, in output pixels. The strip runs along the longer side so it
+ * works for both portrait and landscape outputs; the hero layout puts the small shots in a row
+ * (or column) under (or beside) the large one.
+ */
+export function getCollageCells(layout: CollageLayout, area: Rect, gutter: number): Rect[] {
+  const split = (rect: Rect, count: number, horizontal: boolean): Rect[] => {
+    const size = ((horizontal ? rect.width : rect.height) - gutter * (count - 1)) / count;
+    return Array.from({ length: count }, (_, i) => horizontal
+      ? { x: rect.x + i * (size + gutter), y: rect.y, width: size, height: rect.height }
+      : { x: rect.x, y: rect.y + i * (size + gutter), width: rect.width, height: size });
+  };
+  const isLandscape = area.width >= area.height;
+
+  if (layout === 'strip') {
+    return split(area, 4, isLandscape);
+  }
+  if (layout === 'hero') {
+    // The large shot takes two thirds of the longer side.
+    const [main, rest] = isLandscape
+      ? [{ ...area, width: (area.width - gutter) * 2 / 3 }, { ...area, x: area.x + (area.width - gutter) * 2 / 3 + gutter, width: (area.width - gutter) / 3 }]
+      : [{ ...area, height: (area.height - gutter) * 2 / 3 }, { ...area, y: area.y + (area.height - gutter) * 2 / 3 + gutter, height: (area.height - gutter) / 3 }];
+    return [main, ...split(rest, 3, !isLandscape)];
+  }
+  return split(area, 2, false).flatMap(row => split(row, 2, true));
+}
+
+/**
+ * Arranges the shots (center-cropped into their cells) on a canvas of the given size.
+ * `finishCell` can draw over each cell once its shot is in place, e.g. a picture-in-picture inset.
+ */
+export function renderCollage(
+  shots: HTMLCanvasElement[],
+  options: CollageOptions,
+  width: number,
+  height: number,
+  finishCell?: (cell: HTMLCanvasElement, index: number) => void
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context.');
+
+  context.fillStyle = options.backgroundColor;
+  context.fillRect(0, 0, width, height);
+
+  const gutter = Math.round((Math.min(width, height) * options.gutterPercent) / 100);
+  const footerText = options.footerText.trim();
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.045));
+  const footerHeight = footerText ? Math.round(fontSize * 2) : 0;
+  const area = { x: gutter, y: gutter, width: width - gutter * 2, height: height - gutter * 2 - footerHeight };
+
+  const cell = document.createElement('canvas');
+  const cellContext = cell.getContext('2d');
+  if (!cellContext) throw new Error('Could not get canvas context.');
+  getCollageCells(options.layout, area, gutter).forEach((rect, i) => {
+    const shot = shots[i];
+    if (!shot || rect.width < 1 || rect.height < 1) return;
+    cell.width = Math.round(rect.width);
+    cell.height = Math.round(rect.height);
+    drawFitted(cellContext, shot, shot.width, shot.height, 'cover', options.backgroundColor);
+    finishCell?.(cell, i);
+    context.drawImage(cell, Math.round(rect.x), Math.round(rect.y));
+  });
+
+  if (footerText) {
+    // Pick black or white text, whichever reads better on the background.
+    const value = parseInt(options.backgroundColor.slice(1), 16);
+    const luma = 0.299 * ((value >> 16) & 255) + 0.587 * ((value >> 8) & 255) + 0.114 * (value & 255);
+    context.fillStyle = luma > 140 ? '#111111' : '#ffffff';
+    context.font = `600 ${fontSize}px sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(footerText, width / 2, height - gutter / 2 - footerHeight / 2, width - gutter * 2);
+  }
+  return canvas;
+}
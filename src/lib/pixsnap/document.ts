@@ -0,0 +1,266 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Corners in order: top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point];
+
+export type PageSize = 'a4' | 'letter' | 'receipt';
+
+export const PAGE_SIZES: Record<PageSize, { label: string; aspectRatio: number | null }> = {
+  a4: { label: 'A4', aspectRatio: 210 / 297 },
+  letter: { label: 'Letter', aspectRatio: 215.9 / 279.4 },
+  // Receipts vary in length, so keep the photographed proportions.
+  receipt: { label: 'Receipt', aspectRatio: null },
+};
+export const PAGE_SIZE_KEYS_ORDERED: PageSize[] = ['a4', 'letter', 'receipt'];
+
+export type DocumentCleanup = 'none' | 'grayscale' | 'threshold';
+
+export const DOCUMENT_CLEANUPS: Record<DocumentCleanup, { label: string }> = {
+  none: { label: 'Color' },
+  grayscale: { label: 'Grayscale' },
+  threshold: { label: 'Black & White' },
+};
+export const DOCUMENT_CLEANUP_KEYS_ORDERED: DocumentCleanup[] = ['none', 'grayscale', 'threshold'];
+
+/** Corner layout used until something is detected or dragged. */
+export const DEFAULT_DOCUMENT_QUAD: Quad = [
+  { x: 0.15, y: 0.1 },
+  { x: 0.85, y: 0.1 },
+  { x: 0.85, y: 0.9 },
+  { x: 0.15, y: 0.9 },
+];
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function quadArea(quad: Quad): number {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = gray.length - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Finds the page in a (downsampled) frame: the largest bright region after Otsu thresholding,
+ * reduced to its four extreme corners. Returns corners as fractions of the frame, or null when
+ * nothing page-like stands out.
+ */
+export function detectDocumentQuad(frame: ImageData): Quad | null {
+  const { width, height, data } = frame;
+  const pixelCount = width * height;
+  const gray = new Uint8Array(pixelCount);
+  for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+    gray[i] = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) | 0;
+  }
+  const threshold = otsuThreshold(gray);
+
+  const visited = new Uint8Array(pixelCount);
+  const stack = new Int32Array(pixelCount);
+  let best: { count: number; corners: [number, number, number, number] } | null = null;
+
+  for (let start = 0; start < pixelCount; start++) {
+    if (visited[start] || gray[start] <= threshold) continue;
+    // Flood-fill one bright region, tracking the pixels that extend furthest towards each corner.
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    let count = 0;
+    let tl = start, tr = start, br = start, bl = start;
+    let minSum = Infinity, maxSum = -Infinity, minDiff = Infinity, maxDiff = -Infinity;
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const y = (i - x) / width;
+      count++;
+      const s = x + y;
+      const d = x - y;
+      if (s < minSum) { minSum = s; tl = i; }
+      if (s > maxSum) { maxSum = s; br = i; }
+      if (d > maxDiff) { maxDiff = d; tr = i; }
+      if (d < minDiff) { minDiff = d; bl = i; }
+      if (x > 0 && !visited[i - 1] && gray[i - 1] > threshold) { visited[i - 1] = 1; stack[top++] = i - 1; }
+      if (x < width - 1 && !visited[i + 1] && gray[i + 1] > threshold) { visited[i + 1] = 1; stack[top++] = i + 1; }
+      if (y > 0 && !visited[i - width] && gray[i - width] > threshold) { visited[i - width] = 1; stack[top++] = i - width; }
+      if (y < height - 1 && !visited[i + width] && gray[i + width] > threshold) { visited[i + width] = 1; stack[top++] = i + width; }
+    }
+    if (!best || count > best.count) best = { count, corners: [tl, tr, br, bl] };
+  }
+
+  if (!best || best.count < pixelCount * 0.1 || best.count > pixelCount * 0.95) return null;
+  const quad = best.corners.map(i => {
+    const x = i % width;
+    return { x: (x + 0.5) / width, y: ((i - x) / width + 0.5) / height };
+  }) as Quad;
+  // A region that fills its corner hull badly (blobs, L-shapes) isn't a page.
+  if (quadArea(quad) < 0.1 || (best.count / pixelCount) / quadArea(quad) < 0.8) return null;
+  return quad;
+}
+
+/** Output size for a flattened page whose longest side is `longSide` pixels. */
+export function getDocumentOutputSize(quad: Quad, sourceWidth: number, sourceHeight: number, pageSize: PageSize, longSide: number) {
+  const corners = quad.map(point => ({ x: point.x * sourceWidth, y: point.y * sourceHeight }));
+  const measuredWidth = (distance(corners[0], corners[1]) + distance(corners[3], corners[2])) / 2;
+  const measuredHeight = (distance(corners[0], corners[3]) + distance(corners[1], corners[2])) / 2;
+  let aspectRatio = PAGE_SIZES[pageSize].aspectRatio ?? measuredWidth / Math.max(1, measuredHeight);
+  // Standard pages follow the photographed orientation.
+  if (PAGE_SIZES[pageSize].aspectRatio && measuredWidth > measuredHeight) aspectRatio = 1 / aspectRatio;
+  return aspectRatio >= 1
+    ? { width: longSide, height: Math.max(1, Math.round(longSide / aspectRatio)) }
+    : { width: Math.max(1, Math.round(longSide * aspectRatio)), height: longSide };
+}
+
+/** Coefficients mapping output pixels (u, v) to source pixels, from four corner pairs. */
+function solveHomography(from: Point[], to: Point[]): number[] {
+  const matrix: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    matrix.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    matrix.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix.
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    const divisor = matrix[col][col] || 1e-12;
+    for (let k = col; k < 9; k++) matrix[col][k] /= divisor;
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col];
+      for (let k = col; k < 9; k++) matrix[row][k] -= factor * matrix[col][k];
+    }
+  }
+  return matrix.map(row => row[8]);
+}
+
+/** Flattens the quad (fractions of `source`) into a `width` x `height` canvas with bilinear sampling. */
+export function warpDocument(source: HTMLCanvasElement, quad: Quad, width: number, height: number): HTMLCanvasElement {
+  const sourceContext = source.getContext('2d', { willReadFrequently: true });
+  if (!sourceContext) throw new Error('Could not get canvas context.');
+  const sw = source.width;
+  const sh = source.height;
+  const src = sourceContext.getImageData(0, 0, sw, sh).data;
+
+  const outputCorners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const sourceCorners = quad.map(point => ({ x: point.x * sw, y: point.y * sh }));
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = solveHomography(outputCorners, sourceCorners);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context.');
+  const output = context.createImageData(width, height);
+  const out = output.data;
+
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const cu = u + 0.5;
+      const cv = v + 0.5;
+      const w = h6 * cu + h7 * cv + 1;
+      const x = Math.min(sw - 1, Math.max(0, (h0 * cu + h1 * cv + h2) / w - 0.5));
+      const y = Math.min(sh - 1, Math.max(0, (h3 * cu + h4 * cv + h5) / w - 0.5));
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = x - x0;
+      const fy = y - y0;
+      const p00 = (y0 * sw + x0) * 4;
+      const p10 = (y0 * sw + x1) * 4;
+      const p01 = (y1 * sw + x0) * 4;
+      const p11 = (y1 * sw + x1) * 4;
+      const o = (v * width + u) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src[p00 + c] + (src[p10 + c] - src[p00 + c]) * fx;
+        const bottom = src[p01 + c] + (src[p11 + c] - src[p01 + c]) * fx;
+        out[o + c] = top + (bottom - top) * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+  context.putImageData(output, 0, 0);
+  return canvas;
+}
+
+/**
+ * Grayscale, or black and white via adaptive (local mean) thresholding, which copes with the
+ * uneven lighting of phone-photographed pages far better than one global cut-off.
+ */
+export function applyDocumentCleanup(canvas: HTMLCanvasElement, cleanup: DocumentCleanup) {
+  if (cleanup === 'none') return;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return;
+  const { width, height } = canvas;
+  const image = context.getImageData(0, 0, width, height);
+  const data = image.data;
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+
+  if (cleanup === 'threshold') {
+    // Integral image for O(1) window means.
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += gray[y * width + x];
+        integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+      }
+    }
+    const half = Math.max(4, Math.round(Math.max(width, height) / 32));
+    const bias = 0.12;
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - half);
+      const y1 = Math.min(height, y + half + 1);
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.max(0, x - half);
+        const x1 = Math.min(width, x + half + 1);
+        const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+          - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+        const mean = sum / ((x1 - x0) * (y1 - y0));
+        gray[y * width + x] = gray[y * width + x] < mean * (1 - bias) ? 0 : 255;
+      }
+    }
+  }
+
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    data[p] = data[p + 1] = data[p + 2] = gray[i];
+  }
+  context.putImageData(image, 0, 0);
+}
@@ -0,0 +1,255 @@
+import type { OutputFormat } from '@/lib/pixsnap/settings';
+import { encodeGifSteps, type GifEncodeOptions } from '@/lib/pixsnap/gif';
+
+export interface EncodeResult {
+  dataUrl: string;
+  sizeBytes: number;
+  /** Quality the image was finally encoded at; undefined for lossless formats. */
+  quality?: number;
+  /** Quality the encoder started from before any target-size reduction. */
+  initialQuality?: number;
+  /** Whether a requested target size was met. Always true when no target was requested. */
+  metTarget: boolean;
+}
+
+export const getEstimatedByteSize = (dataUri: string): number => {
+  if (!dataUri.includes(',')) return 0;
+  const base64 = dataUri.substring(dataUri.indexOf(',') + 1);
+  const paddingMatch = base64.match(/(=*)$/);
+  const padding = paddingMatch ? paddingMatch[1].length : 0;
+  return (base64.length * 3/4) - padding;
+};
+
+export function getMimeType(format: OutputFormat): string {
+  switch (format) {
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'webp':
+      return 'image/webp';
+    case 'gif':
+      return 'image/gif';
+    case 'png':
+    default:
+      return 'image/png';
+  }
+}
+
+function getInitialQuality(format: OutputFormat): number | undefined {
+  switch (format) {
+    case 'jpeg':
+      return 0.92;
+    case 'webp':
+      return 0.90;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Encodes a canvas in the requested format. For JPEG/WEBP with a target size the quality is
+ * stepped down until the image fits or the minimum quality is reached. GIF is only produced by
+ * `encodeGifFramesAsync` for animated captures; encoding a still as GIF would block the page.
+ */
+export function encodeCanvas(canvas: HTMLCanvasElement, format: OutputFormat, targetFileSizeKB: number): EncodeResult {
+  if (format === 'gif') throw new Error('GIF output is only available for animated GIF captures.');
+
+  const imageMimeType = getMimeType(format);
+  const initialQuality = getInitialQuality(format);
+
+  let tempImageUrl = canvas.toDataURL(imageMimeType, initialQuality);
+  let finalQuality = initialQuality;
+  let currentSize = getEstimatedByteSize(tempImageUrl);
+  const targetSizeBytes = targetFileSizeKB * 1024;
+
+  if ((format === 'jpeg' || format === 'webp') && targetFileSizeKB > 0 && initialQuality !== undefined) {
+    let currentQuality = initialQuality;
+    const minQuality = 0.1;
+    const qualityStep = 0.05;
+    let attempts = 0;
+    const maxAttempts = Math.ceil((currentQuality - minQuality) / qualityStep) + 5; 
+
+    while (currentSize > targetSizeBytes && currentQuality > minQuality && attempts < maxAttempts) {
+      currentQuality -= qualityStep;
+      if (currentQuality < minQuality) currentQuality = minQuality; 
+      
+      const nextImgUrl = canvas.toDataURL(imageMimeType, currentQuality);
+      const nextSize = getEstimatedByteSize(nextImgUrl);
+
+      if (nextSize < currentSize || (nextSize > currentSize && currentSize > targetSizeBytes) ) {
+           tempImageUrl = nextImgUrl;
+           currentSize = nextSize;
+           finalQuality = currentQuality;
+      } else if (nextSize > currentSize && currentSize <= targetSizeBytes) {
+          break;
+      }
+      attempts++;
+      if (currentQuality <= minQuality && currentSize > targetSizeBytes) break; 
+    }
+  }
+
+  return {
+    dataUrl: tempImageUrl,
+    sizeBytes: currentSize,
+    quality: finalQuality,
+    initialQuality,
+    metTarget: targetFileSizeKB <= 0 || currentSize <= targetSizeBytes,
+  };
+}
+
+/** Toast content summarising how an encode went relative to the target size, or null when there is nothing to report. */
+export function describeEncodeResult(
+  result: EncodeResult,
+  format: OutputFormat,
+  targetFileSizeKB: number
+): { title: string; description: string; duration: number } | null {
+  if (targetFileSizeKB <= 0) return null;
+  const sizeKB = (result.sizeBytes / 1024).toFixed(1);
+
+  if (format === 'jpeg' || format === 'webp') {
+    const qualityPercent = ((result.quality ?? 1) * 100).toFixed(0);
+    if (!result.metTarget) {
+      return { title: 'File Size Warning', description: `Could not meet target ${targetFileSizeKB} KB. Actual: ${sizeKB} KB at quality ${qualityPercent}%.`, duration: 5000 };
+    }
+    if (result.quality !== result.initialQuality) {
+      return { title: 'File Size Optimized', description: `Image size: ${sizeKB} KB at quality ${qualityPercent}%.`, duration: 3000 };
+    }
+    return null;
+  }
+
+  if (!result.metTarget) {
+    return { title: 'File Size Note', description: `PNG size: ${sizeKB} KB. Target size affects JPEG/WEBP quality.`, duration: 5000 };
+  }
+  return null;
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+export const DEFAULT_GIF_OPTIONS: GifEncodeOptions = {
+  delayMs: 100,
+  loopCount: 0,
+  maxColors: 256,
+  dithering: 'floyd-steinberg',
+};
+
+export interface GifEncodeResult {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+  colors: number;
+  metTarget: boolean;
+}
+
+const GIF_COLOR_STEPS = [256, 128, 64, 32, 16];
+const GIF_SCALE_STEP = 0.8;
+const GIF_MIN_SCALE = 0.25;
+
+function scaleImageData(frame: ImageData, scale: number): ImageData {
+  const source = document.createElement('canvas');
+  source.width = frame.width;
+  source.height = frame.height;
+  source.getContext('2d')!.putImageData(frame, 0, 0);
+
+  const target = document.createElement('canvas');
+  target.width = Math.max(1, Math.round(frame.width * scale));
+  target.height = Math.max(1, Math.round(frame.height * scale));
+  const context = target.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context.');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, target.width, target.height);
+  return context.getImageData(0, 0, target.width, target.height);
+}
+
+/** Where a multi-attempt GIF encode currently is, for progress messages. */
+export interface GifEncodeProgress {
+  /** 1-based; each palette or size reduction starts a new attempt. */
+  attempt: number;
+  framesDone: number;
+  frameCount: number;
+  colors: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * GIF counterpart of the JPEG/WEBP quality loop: with a target size, first lower the palette size
+ * and then, if `allowResize`, shrink the frames until the file fits or the minimums are reached.
+ * Yields to the event loop after every frame of every attempt so the page stays responsive.
+ */
+export async function encodeGifFramesAsync(
+  frames: ImageData[],
+  options: GifEncodeOptions,
+  targetFileSizeKB: number,
+  allowResize: boolean,
+  onProgress?: (progress: GifEncodeProgress) => void
+): Promise<GifEncodeResult> {
+  const steps = encodeGifFramesSteps(frames, options, targetFileSizeKB, allowResize);
+  let step = steps.next();
+  while (!step.done) {
+    onProgress?.(step.value);
+    await new Promise<void>(resolve => setTimeout(resolve, 0));
+    step = steps.next();
+  }
+  return step.value;
+}
+
+function* encodeGifFramesSteps(
+  frames: ImageData[],
+  options: GifEncodeOptions,
+  targetFileSizeKB: number,
+  allowResize: boolean
+): Generator<GifEncodeProgress, GifEncodeResult> {
+  const targetSizeBytes = targetFileSizeKB * 1024;
+  const fits = (bytes: Uint8Array) => targetFileSizeKB <= 0 || bytes.length <= targetSizeBytes;
+  const toResult = (bytes: Uint8Array, scaled: ImageData[], colors: number): GifEncodeResult => ({
+    bytes,
+    width: scaled[0].width,
+    height: scaled[0].height,
+    colors,
+    metTarget: fits(bytes),
+  });
+  let attempt = 0;
+  function* encodeAttempt(attemptFrames: ImageData[], colors: number): Generator<GifEncodeProgress, Uint8Array> {
+    attempt++;
+    const progress = { attempt, frameCount: attemptFrames.length, colors, width: attemptFrames[0].width, height: attemptFrames[0].height };
+    yield { ...progress, framesDone: 0 };
+    const steps = encodeGifSteps(attemptFrames, { ...options, maxColors: colors });
+    let step = steps.next();
+    while (!step.done) {
+      yield { ...progress, framesDone: step.value };
+      step = steps.next();
+    }
+    return step.value;
+  }
+
+  const colorSteps = [options.maxColors, ...GIF_COLOR_STEPS.filter(colors => colors < options.maxColors)];
+  let colors = options.maxColors;
+  let bytes = yield* encodeAttempt(frames, colors);
+  if (fits(bytes)) return toResult(bytes, frames, colors);
+
+  for (const stepColors of colorSteps.slice(1)) {
+    colors = stepColors;
+    bytes = yield* encodeAttempt(frames, colors);
+    if (fits(bytes)) return toResult(bytes, frames, colors);
+  }
+
+  if (!allowResize) return toResult(bytes, frames, colors);
+
+  let scale = 1;
+  let scaled = frames;
+  while (scale * GIF_SCALE_STEP >= GIF_MIN_SCALE) {
+    scale *= GIF_SCALE_STEP;
+    scaled = frames.map(frame => scaleImageData(frame, scale));
+    bytes = yield* encodeAttempt(scaled, colors);
+    if (fits(bytes)) break;
+  }
+  return toResult(bytes, scaled, colors);
+}
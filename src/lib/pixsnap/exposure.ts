@@ -0,0 +1,84 @@
+export const HISTOGRAM_BINS = 64;
+
+/** Channel values at or beyond these count as blown highlights / crushed shadows. */
+export const HIGHLIGHT_CLIP_LEVEL = 250;
+export const SHADOW_CLIP_LEVEL = 5;
+
+export interface Histogram {
+  red: number[];
+  green: number[];
+  blue: number[];
+  luma: number[];
+  /** Fraction of pixels with at least one channel at or above HIGHLIGHT_CLIP_LEVEL. */
+  highlightsClipped: number;
+  /** Fraction of pixels whose luminance is at or below SHADOW_CLIP_LEVEL. */
+  shadowsClipped: number;
+}
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+export function computeHistogram(frame: ImageData, bins = HISTOGRAM_BINS): Histogram {
+  const red = new Array<number>(bins).fill(0);
+  const green = new Array<number>(bins).fill(0);
+  const blue = new Array<number>(bins).fill(0);
+  const luma = new Array<number>(bins).fill(0);
+  const binShift = 256 / bins;
+  const { data } = frame;
+  let highlights = 0;
+  let shadows = 0;
+
+  for (let p = 0; p < data.length; p += 4) {
+    const r = data[p];
+    const g = data[p + 1];
+    const b = data[p + 2];
+    const y = luminance(r, g, b);
+    red[Math.floor(r / binShift)]++;
+    green[Math.floor(g / binShift)]++;
+    blue[Math.floor(b / binShift)]++;
+    luma[Math.min(bins - 1, Math.floor(y / binShift))]++;
+    if (r >= HIGHLIGHT_CLIP_LEVEL || g >= HIGHLIGHT_CLIP_LEVEL || b >= HIGHLIGHT_CLIP_LEVEL) highlights++;
+    else if (y <= SHADOW_CLIP_LEVEL) shadows++;
+  }
+
+  const pixelCount = Math.max(1, data.length / 4);
+  return { red, green, blue, luma, highlightsClipped: highlights / pixelCount, shadowsClipped: shadows / pixelCount };
+}
+
+const ZEBRA_HIGHLIGHT_RGBA = [255, 0, 128, 220];
+const ZEBRA_SHADOW_RGBA = [0, 140, 255, 220];
+
+/**
+ * Paints diagonal zebra stripes into `target` (resized to the frame) wherever the frame clips,
+ * leaving everything else transparent so it can sit on top of the live video.
+ */
+export function drawZebraStripes(target: HTMLCanvasElement, frame: ImageData, stripePeriod = 6) {
+  const { width, height, data } = frame;
+  if (target.width !== width || target.height !== height) {
+    target.width = width;
+    target.height = height;
+  }
+  const context = target.getContext('2d');
+  if (!context) return;
+  const overlay = context.createImageData(width, height);
+  const out = overlay.data;
+  const half = stripePeriod / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if ((x + y) % stripePeriod >= half) continue;
+      const p = (y * width + x) * 4;
+      const r = data[p];
+      const g = data[p + 1];
+      const b = data[p + 2];
+      let color: number[] | null = null;
+      if (r >= HIGHLIGHT_CLIP_LEVEL || g >= HIGHLIGHT_CLIP_LEVEL || b >= HIGHLIGHT_CLIP_LEVEL) color = ZEBRA_HIGHLIGHT_RGBA;
+      else if (luminance(r, g, b) <= SHADOW_CLIP_LEVEL) color = ZEBRA_SHADOW_RGBA;
+      if (!color) continue;
+      out[p] = color[0];
+      out[p + 1] = color[1];
+      out[p + 2] = color[2];
+      out[p + 3] = color[3];
+    }
+  }
+  context.putImageData(overlay, 0, 0);
+}
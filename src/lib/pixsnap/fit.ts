@@ -0,0 +1,55 @@
+import type { FitMode } from '@/lib/pixsnap/settings';
+
+/** Source and destination rectangles for a `drawImage(source, sx, sy, sw, sh, dx, dy, dw, dh)` call. */
+export interface FitRects {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+}
+
+export function computeFitRects(srcWidth: number, srcHeight: number, dstWidth: number, dstHeight: number, fitMode: FitMode): FitRects {
+  const full: FitRects = { sx: 0, sy: 0, sw: srcWidth, sh: srcHeight, dx: 0, dy: 0, dw: dstWidth, dh: dstHeight };
+  if (srcWidth <= 0 || srcHeight <= 0 || fitMode === 'stretch') {
+    return full;
+  }
+
+  if (fitMode === 'cover') {
+    const scale = Math.max(dstWidth / srcWidth, dstHeight / srcHeight);
+    const sw = dstWidth / scale;
+    const sh = dstHeight / scale;
+    return { ...full, sx: (srcWidth - sw) / 2, sy: (srcHeight - sh) / 2, sw, sh };
+  }
+
+  const scale = Math.min(dstWidth / srcWidth, dstHeight / srcHeight);
+  const dw = srcWidth * scale;
+  const dh = srcHeight * scale;
+  return { ...full, dx: (dstWidth - dw) / 2, dy: (dstHeight - dh) / 2, dw, dh };
+}
+
+/** True when any axis of the source region is enlarged on its way to the output. */
+export function isUpscaled(rects: FitRects): boolean {
+  return rects.dw > rects.sw + 0.5 || rects.dh > rects.sh + 0.5;
+}
+
+/** Draws `source` onto the whole of `context`'s canvas using the given fit mode. */
+export function drawFitted(
+  context: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  srcWidth: number,
+  srcHeight: number,
+  fitMode: FitMode,
+  fillColor: string
+) {
+  const { width, height } = context.canvas;
+  const rects = computeFitRects(srcWidth, srcHeight, width, height, fitMode);
+  if (fitMode === 'contain') {
+    context.fillStyle = fillColor;
+    context.fillRect(0, 0, width, height);
+  }
+  context.drawImage(source, rects.sx, rects.sy, rects.sw, rects.sh, rects.dx, rects.dy, rects.dw, rects.dh);
+}
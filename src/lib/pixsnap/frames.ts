@@ -0,0 +1,124 @@
+import { drawFitted } from '@/lib/pixsnap/fit';
+import type { PixsnapSettings } from '@/lib/pixsnap/settings';
+import { dataUrlToBlob, encodeCanvas } from '@/lib/pixsnap/encode';
+
+/** Copies the current video frame at its native resolution. Returns null if the video has no frame yet. */
+export function grabVideoFrame(video: HTMLVideoElement): HTMLCanvasElement | null {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const frame = document.createElement('canvas');
+  frame.width = video.videoWidth;
+  frame.height = video.videoHeight;
+  const context = frame.getContext('2d');
+  if (!context) return null;
+  context.drawImage(video, 0, 0, frame.width, frame.height);
+  return frame;
+}
+
+/**
+ * Renders a source frame at the output size using the settings' fit mode.
+ * `scale` shrinks the result, e.g. for thumbnails or analysis, while keeping the output framing.
+ */
+export function renderFittedFrame(
+  source: HTMLCanvasElement,
+  settings: Pick<PixsnapSettings, 'width' | 'height' | 'fitMode' | 'fillColor'>,
+  scale = 1
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(settings.width * scale));
+  canvas.height = Math.max(1, Math.round(settings.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context.');
+  drawFitted(context, source, source.width, source.height, settings.fitMode, settings.fillColor);
+  return canvas;
+}
+
+/** Independent copy of a canvas, so later drawing into the original can't change it. */
+export function copyCanvas(source: HTMLCanvasElement): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context.');
+  context.drawImage(source, 0, 0);
+  return canvas;
+}
+
+/** Scale factor that brings the larger output side down to `maxDimension` (never enlarges). */
+export function getDownscaleFactor(width: number, height: number, maxDimension: number): number {
+  return Math.min(1, maxDimension / Math.max(width, height));
+}
+
+/** A frame kept during a capture session (burst, interval, motion...) before the user decides what to save. */
+export interface SessionFrame {
+  id: string;
+  /** Full-resolution camera frame. */
+  source: HTMLCanvasElement;
+  /** Picture-in-picture inset grabbed at the same moment, when one is on. */
+  pipFrame?: HTMLCanvasElement | null;
+  /** Small JPEG of the framed output for filmstrips. */
+  previewUrl: string;
+  capturedAt: Date;
+  sharpness?: number;
+}
+
+const PREVIEW_MAX_DIMENSION = 960;
+
+export const createFrameId = (capturedAt: Date) => `frame-${capturedAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function createSessionFrame(
+  source: HTMLCanvasElement,
+  settings: Pick<PixsnapSettings, 'width' | 'height' | 'fitMode' | 'fillColor'>,
+  pipFrame: HTMLCanvasElement | null = null
+): SessionFrame {
+  const capturedAt = new Date();
+  const preview = renderFittedFrame(source, settings, getDownscaleFactor(settings.width, settings.height, PREVIEW_MAX_DIMENSION));
+  return {
+    id: createFrameId(capturedAt),
+    source,
+    pipFrame,
+    previewUrl: preview.toDataURL('image/jpeg', 0.8),
+    capturedAt,
+  };
+}
+
+export const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** The frame with the highest sharpness score, or null if none have been scored. */
+export function findSharpestFrame(frames: SessionFrame[]): SessionFrame | null {
+  return frames.reduce<SessionFrame | null>(
+    (best, frame) => (frame.sharpness !== undefined && (!best || frame.sharpness > best.sharpness!) ? frame : best),
+    null
+  );
+}
+
+/**
+ * A frame that is encoded straight away so long sessions (interval, motion) don't hold on to
+ * a full-resolution canvas per shot.
+ */
+export interface EncodedFrame {
+  id: string;
+  blob: Blob;
+  previewUrl: string;
+  capturedAt: Date;
+}
+
+const THUMBNAIL_MAX_DIMENSION = 240;
+
+/** `finish` runs on the full-size output just before encoding, e.g. to stamp a watermark. */
+export function createEncodedFrame(
+  source: HTMLCanvasElement,
+  settings: PixsnapSettings,
+  finish?: (output: HTMLCanvasElement) => void
+): EncodedFrame {
+  const capturedAt = new Date();
+  const output = renderFittedFrame(source, settings);
+  finish?.(output);
+  const result = encodeCanvas(output, settings.format, settings.targetFileSizeKB);
+  const thumbnail = renderFittedFrame(source, settings, getDownscaleFactor(settings.width, settings.height, THUMBNAIL_MAX_DIMENSION));
+  return {
+    id: createFrameId(capturedAt),
+    blob: dataUrlToBlob(result.dataUrl),
+    previewUrl: thumbnail.toDataURL('image/jpeg', 0.7),
+    capturedAt,
+  };
+}
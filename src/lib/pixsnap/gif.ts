@@ -0,0 +1,358 @@
+/**
+ * Dependency-free GIF89a encoder: median-cut palette quantization over all frames, optional
+ * Floyd–Steinberg or ordered (Bayer) dithering, and LZW compression.
+ */
+
+export type GifDithering = 'none' | 'floyd-steinberg' | 'ordered';
+
+export const GIF_DITHERING_OPTIONS: Record<GifDithering, string> = {
+  none: 'None',
+  'floyd-steinberg': 'Floyd–Steinberg',
+  ordered: 'Ordered (Bayer)',
+};
+export const GIF_DITHERING_KEYS_ORDERED: GifDithering[] = ['none', 'floyd-steinberg', 'ordered'];
+
+export interface GifEncodeOptions {
+  /** Display time of each frame. GIF stores this in hundredths of a second. */
+  delayMs: number;
+  /** 0 loops forever; n plays the animation n + 1 times. Ignored for single frames. */
+  loopCount: number;
+  /** 2 to 256. */
+  maxColors: number;
+  dithering: GifDithering;
+}
+
+interface GifFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const MAX_PALETTE_SAMPLES = 65536;
+
+const BAYER_4X4 = [
+  0, 8, 2, 10,
+  12, 4, 14, 6,
+  3, 11, 1, 9,
+  15, 7, 13, 5,
+];
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  short(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    this.ensure(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/** Median cut over a sample of pixels from every frame. Returns packed 0xRRGGBB colors. */
+export function buildPalette(frames: GifFrame[], maxColors: number): number[] {
+  const totalPixels = frames.reduce((sum, frame) => sum + frame.width * frame.height, 0);
+  const stride = Math.max(1, Math.floor(totalPixels / MAX_PALETTE_SAMPLES));
+  const samples: number[] = [];
+  let counter = 0;
+  for (const frame of frames) {
+    for (let p = 0; p < frame.data.length; p += 4) {
+      if (counter++ % stride !== 0) continue;
+      samples.push((frame.data[p] << 16) | (frame.data[p + 1] << 8) | frame.data[p + 2]);
+    }
+  }
+  if (samples.length === 0) return [0x000000, 0xffffff];
+
+  const pixels = Uint32Array.from(samples);
+  const boxes: { start: number; end: number }[] = [{ start: 0, end: pixels.length }];
+
+  const channelRange = (start: number, end: number) => {
+    let minR = 255, minG = 255, minB = 255, maxR = 0, maxG = 0, maxB = 0;
+    for (let i = start; i < end; i++) {
+      const c = pixels[i];
+      const r = c >> 16, g = (c >> 8) & 0xff, b = c & 0xff;
+      if (r < minR) minR = r; if (r > maxR) maxR = r;
+      if (g < minG) minG = g; if (g > maxG) maxG = g;
+      if (b < minB) minB = b; if (b > maxB) maxB = b;
+    }
+    const ranges = [maxR - minR, maxG - minG, maxB - minB];
+    const channel = ranges.indexOf(Math.max(...ranges));
+    return { channel, range: ranges[channel] };
+  };
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest color spread, weighted by how many pixels it covers.
+    let bestIndex = -1;
+    let bestScore = 0;
+    let bestChannel = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      const { start, end } = boxes[i];
+      if (end - start < 2) continue;
+      const { channel, range } = channelRange(start, end);
+      const score = range * Math.sqrt(end - start);
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+        bestChannel = channel;
+      }
+    }
+    if (bestIndex < 0) break;
+
+    const box = boxes[bestIndex];
+    const shift = 16 - bestChannel * 8;
+    const sorted = pixels.subarray(box.start, box.end).sort((a, b) => ((a >> shift) & 0xff) - ((b >> shift) & 0xff));
+    pixels.set(sorted, box.start);
+    const middle = box.start + ((box.end - box.start) >> 1);
+    boxes.splice(bestIndex, 1, { start: box.start, end: middle }, { start: middle, end: box.end });
+  }
+
+  return boxes.map(({ start, end }) => {
+    let r = 0, g = 0, b = 0;
+    for (let i = start; i < end; i++) {
+      const c = pixels[i];
+      r += c >> 16;
+      g += (c >> 8) & 0xff;
+      b += c & 0xff;
+    }
+    const count = end - start;
+    return (Math.round(r / count) << 16) | (Math.round(g / count) << 8) | Math.round(b / count);
+  });
+}
+
+function createNearestColorLookup(palette: number[]) {
+  const pr = palette.map(c => c >> 16);
+  const pg = palette.map(c => (c >> 8) & 0xff);
+  const pb = palette.map(c => c & 0xff);
+  // Cache on 5 bits per channel; close enough for matching and keeps the table at 32K entries.
+  const cache = new Int16Array(32768).fill(-1);
+
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached >= 0) return cached;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const dr = r - pr[i], dg = g - pg[i], db = b - pb[i];
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+}
+
+function indexFrame(frame: GifFrame, palette: number[], nearest: (r: number, g: number, b: number) => number, dithering: GifDithering): Uint8Array {
+  const { width, height, data } = frame;
+  const indices = new Uint8Array(width * height);
+  const clamp = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+  if (dithering === 'floyd-steinberg') {
+    const work = new Float32Array(width * height * 3);
+    for (let i = 0, p = 0; i < width * height; i++, p += 4) {
+      work[i * 3] = data[p];
+      work[i * 3 + 1] = data[p + 1];
+      work[i * 3 + 2] = data[p + 2];
+    }
+    const spread = (x: number, y: number, er: number, eg: number, eb: number, weight: number) => {
+      if (x < 0 || x >= width || y >= height) return;
+      const j = (y * width + x) * 3;
+      work[j] += er * weight;
+      work[j + 1] += eg * weight;
+      work[j + 2] += eb * weight;
+    };
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const r = clamp(work[i * 3]), g = clamp(work[i * 3 + 1]), b = clamp(work[i * 3 + 2]);
+        const index = nearest(r, g, b);
+        indices[i] = index;
+        const c = palette[index];
+        const er = r - (c >> 16), eg = g - ((c >> 8) & 0xff), eb = b - (c & 0xff);
+        spread(x + 1, y, er, eg, eb, 7 / 16);
+        spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+        spread(x, y + 1, er, eg, eb, 5 / 16);
+        spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+      }
+    }
+    return indices;
+  }
+
+  // Ordered dithering nudges each pixel by a position-dependent threshold scaled to the palette's step size.
+  const strength = dithering === 'ordered' ? 256 / Math.cbrt(palette.length) : 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const p = i * 4;
+      const offset = strength ? (BAYER_4X4[(y & 3) * 4 + (x & 3)] / 16 - 0.5) * strength : 0;
+      indices[i] = nearest(clamp(data[p] + offset), clamp(data[p + 1] + offset), clamp(data[p + 2] + offset));
+    }
+  }
+  return indices;
+}
+
+/** Variable-length LZW as used by GIF, written as length-prefixed sub-blocks. */
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize: number) {
+  out.byte(minCodeSize);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const table = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xff;
+      if (blockLength === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bitBuffer & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0);
+}
+
+/** Encodes same-sized RGBA frames (e.g. ImageData) into an animated GIF. */
+export function encodeGif(frames: GifFrame[], options: GifEncodeOptions): Uint8Array {
+  const steps = encodeGifSteps(frames, options);
+  let step = steps.next();
+  while (!step.done) step = steps.next();
+  return step.value;
+}
+
+/**
+ * `encodeGif` one frame at a time: yields the number of frames written so far, so callers can
+ * hand control back to the page between frames. Returns the finished file.
+ */
+export function* encodeGifSteps(frames: GifFrame[], options: GifEncodeOptions): Generator<number, Uint8Array> {
+  if (frames.length === 0) throw new Error('No frames to encode.');
+  const { width, height } = frames[0];
+  if (frames.some(frame => frame.width !== width || frame.height !== height)) {
+    throw new Error('All GIF frames must have the same size.');
+  }
+
+  const maxColors = Math.min(256, Math.max(2, Math.round(options.maxColors)));
+  const palette = buildPalette(frames, maxColors);
+  const paletteBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const tableSize = 1 << paletteBits;
+  const nearest = createNearestColorLookup(palette);
+
+  const out = new ByteWriter();
+  out.string('GIF89a');
+  out.short(width);
+  out.short(height);
+  out.byte(0x80 | ((paletteBits - 1) << 4) | (paletteBits - 1)); // global color table present
+  out.byte(0); // background color index
+  out.byte(0); // pixel aspect ratio
+  for (let i = 0; i < tableSize; i++) {
+    const c = palette[i] ?? 0;
+    out.byte(c >> 16);
+    out.byte(c >> 8);
+    out.byte(c);
+  }
+
+  if (frames.length > 1) {
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.string('NETSCAPE2.0');
+    out.bytes([0x03, 0x01]);
+    out.short(Math.max(0, Math.round(options.loopCount)));
+    out.byte(0);
+  }
+
+  const delay = Math.max(0, Math.round(options.delayMs / 10));
+  for (const [index, frame] of frames.entries()) {
+    out.bytes([0x21, 0xf9, 0x04, 0x04]); // graphic control: disposal "do not dispose", no transparency
+    out.short(delay);
+    out.bytes([0x00, 0x00]);
+
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(width);
+    out.short(height);
+    out.byte(0); // no local color table, not interlaced
+
+    writeLzw(out, indexFrame(frame, palette, nearest, options.dithering), Math.max(2, paletteBits));
+    yield index + 1;
+  }
+
+  out.byte(0x3b);
+  return out.toUint8Array();
+}
+
+/** Plays the frames forward then backward without repeating the turning points. */
+export function toBoomerang<T>(frames: T[]): T[] {
+  if (frames.length < 3) return frames;
+  return [...frames, ...frames.slice(1, -1).reverse()];
+}
@@ -0,0 +1,34 @@
+export const IMPORT_ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const isImportableImage = (file: File) => IMPORT_ACCEPTED_TYPES.includes(file.type);
+
+/** First importable image in a drop or clipboard payload. */
+export function getImageFromDataTransfer(dataTransfer: DataTransfer | null): File | null {
+  if (!dataTransfer) return null;
+  for (const file of Array.from(dataTransfer.files)) {
+    if (isImportableImage(file)) return file;
+  }
+  // Some browsers expose pasted screenshots only through `items`.
+  for (const item of Array.from(dataTransfer.items ?? [])) {
+    if (item.kind !== 'file') continue;
+    const file = item.getAsFile();
+    if (file && isImportableImage(file)) return file;
+  }
+  return null;
+}
+
+/** Decodes an image file into a canvas at its full resolution, honouring EXIF orientation. */
+export async function loadImageFile(file: Blob): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Could not get canvas context.');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
@@ -0,0 +1,44 @@
+import type { Rect } from '@/lib/pixsnap/transform';
+
+/** Per-pixel luminance change (0-255) that counts as "something moved" rather than sensor noise. */
+const PIXEL_CHANGE_THRESHOLD = 25;
+
+export const MIN_MOTION_SENSITIVITY = 1;
+export const MAX_MOTION_SENSITIVITY = 100;
+
+/**
+ * Share of the watched region that has to change to trigger a shot. Sensitivity 100 fires on
+ * roughly 0.2% of the region changing, sensitivity 1 needs about a fifth of it.
+ */
+export const getMotionTriggerFraction = (sensitivity: number) =>
+  0.002 + ((MAX_MOTION_SENSITIVITY - sensitivity) / (MAX_MOTION_SENSITIVITY - MIN_MOTION_SENSITIVITY)) * 0.198;
+
+/**
+ * Luminance of the part of `frame` inside `region` (fractions of the frame; null for all of it).
+ */
+export function extractRegionLuma(frame: ImageData, region: Rect | null): Float32Array {
+  const { width, height, data } = frame;
+  const x0 = region ? Math.floor(region.x * width) : 0;
+  const y0 = region ? Math.floor(region.y * height) : 0;
+  const x1 = region ? Math.max(x0 + 1, Math.ceil((region.x + region.width) * width)) : width;
+  const y1 = region ? Math.max(y0 + 1, Math.ceil((region.y + region.height) * height)) : height;
+  const luma = new Float32Array((x1 - x0) * (y1 - y0));
+  let i = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const p = (y * width + x) * 4;
+      luma[i++] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    }
+  }
+  return luma;
+}
+
+/** Fraction of pixels that changed noticeably between two luma buffers of the same region. */
+export function measureMotion(previous: Float32Array, current: Float32Array): number {
+  if (previous.length !== current.length || current.length === 0) return 0;
+  let changed = 0;
+  for (let i = 0; i < current.length; i++) {
+    if (Math.abs(current[i] - previous[i]) > PIXEL_CHANGE_THRESHOLD) changed++;
+  }
+  return changed / current.length;
+}
@@ -0,0 +1,72 @@
+export type PeakingColor = 'red' | 'green' | 'yellow' | 'blue' | 'white';
+
+export const PEAKING_COLORS: Record<PeakingColor, { label: string; rgb: [number, number, number] }> = {
+  red: { label: 'Red', rgb: [255, 40, 40] },
+  green: { label: 'Green', rgb: [40, 255, 80] },
+  yellow: { label: 'Yellow', rgb: [255, 230, 0] },
+  blue: { label: 'Blue', rgb: [40, 140, 255] },
+  white: { label: 'White', rgb: [255, 255, 255] },
+};
+export const PEAKING_COLOR_KEYS_ORDERED: PeakingColor[] = ['red', 'green', 'yellow', 'blue', 'white'];
+
+/** Edges weaker than this never count as in focus, so a blurry frame shows no peaking at all. */
+const MIN_EDGE_MAGNITUDE = 90;
+/** Otherwise only the strongest edges in the frame are tinted. */
+const PEAKING_TOP_FRACTION = 0.06;
+
+/**
+ * Sobel edge magnitude of the frame's luminance, painted in `color` where it is strongest
+ * and transparent elsewhere. `target` is resized to the frame.
+ */
+export function drawFocusPeaking(target: HTMLCanvasElement, frame: ImageData, color: PeakingColor) {
+  const { width, height, data } = frame;
+  if (target.width !== width || target.height !== height) {
+    target.width = width;
+    target.height = height;
+  }
+  const context = target.getContext('2d');
+  if (!context || width < 3 || height < 3) return;
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    luma[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+
+  const magnitude = new Float32Array(width * height);
+  // Bucketed magnitudes (0..1442 for 8-bit input) to find the cut-off for the strongest edges.
+  const buckets = new Uint32Array(256);
+  const bucketSize = 1443 / 256;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const tl = luma[i - width - 1], t = luma[i - width], tr = luma[i - width + 1];
+      const l = luma[i - 1], r = luma[i + 1];
+      const bl = luma[i + width - 1], b = luma[i + width], br = luma[i + width + 1];
+      const gx = tr + 2 * r + br - tl - 2 * l - bl;
+      const gy = bl + 2 * b + br - tl - 2 * t - tr;
+      const value = Math.sqrt(gx * gx + gy * gy);
+      magnitude[i] = value;
+      buckets[Math.min(255, Math.floor(value / bucketSize))]++;
+    }
+  }
+
+  let remaining = (width - 2) * (height - 2) * PEAKING_TOP_FRACTION;
+  let bucket = 255;
+  while (bucket > 0 && remaining > 0) {
+    remaining -= buckets[bucket];
+    bucket--;
+  }
+  const threshold = Math.max(MIN_EDGE_MAGNITUDE, (bucket + 1) * bucketSize);
+
+  const [red, green, blue] = PEAKING_COLORS[color].rgb;
+  const overlay = context.createImageData(width, height);
+  const out = overlay.data;
+  for (let i = 0, p = 0; i < magnitude.length; i++, p += 4) {
+    if (magnitude[i] < threshold) continue;
+    out[p] = red;
+    out[p + 1] = green;
+    out[p + 2] = blue;
+    out[p + 3] = 255;
+  }
+  context.putImageData(overlay, 0, 0);
+}
@@ -0,0 +1,72 @@
+import { computeFitRects } from '@/lib/pixsnap/fit';
+import type { Rect } from '@/lib/pixsnap/transform';
+
+/** A second source composited as an inset (picture-in-picture). */
+export type PipSource = { kind: 'camera'; deviceId: string } | { kind: 'screen' };
+
+export interface PipLayout {
+  /** Inset position and size as fractions of the output. */
+  rect: Rect;
+  /** Corner radius and border width as fractions of the output width. */
+  cornerRadius: number;
+  borderWidth: number;
+  borderColor: string;
+}
+
+export const MIN_PIP_SIZE = 0.1;
+export const MAX_PIP_CORNER_RADIUS = 0.05;
+export const MAX_PIP_BORDER_WIDTH = 0.02;
+
+export const DEFAULT_PIP_LAYOUT: PipLayout = {
+  rect: { x: 0.68, y: 0.66, width: 0.28, height: 0.3 },
+  cornerRadius: 0.015,
+  borderWidth: 0.004,
+  borderColor: '#ffffff',
+};
+
+/** Sensible pixel sizes for the inset stream, so a small inset doesn't open a 4K camera. */
+export const getPipStreamSize = (outputWidth: number, outputHeight: number, layout: PipLayout) => ({
+  width: Math.max(320, Math.round(outputWidth * layout.rect.width)),
+  height: Math.max(240, Math.round(outputHeight * layout.rect.height)),
+});
+
+function roundedRectPath(context: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) {
+  const r = Math.min(radius, width / 2, height / 2);
+  context.beginPath();
+  context.moveTo(x + r, y);
+  context.arcTo(x + width, y, x + width, y + height, r);
+  context.arcTo(x + width, y + height, x, y + height, r);
+  context.arcTo(x, y + height, x, y, r);
+  context.arcTo(x, y, x + width, y, r);
+  context.closePath();
+}
+
+/** Draws `source` center-cropped into the inset rectangle, with rounded corners and a border. */
+export function drawPipInset(canvas: HTMLCanvasElement, source: HTMLCanvasElement, layout: PipLayout) {
+  const context = canvas.getContext('2d');
+  if (!context || !source.width || !source.height) return;
+  const { width, height } = canvas;
+  const x = layout.rect.x * width;
+  const y = layout.rect.y * height;
+  const w = layout.rect.width * width;
+  const h = layout.rect.height * height;
+  const radius = layout.cornerRadius * width;
+  const border = layout.borderWidth * width;
+  const fit = computeFitRects(source.width, source.height, w, h, 'cover');
+
+  context.save();
+  roundedRectPath(context, x, y, w, h, radius);
+  context.clip();
+  context.drawImage(source, fit.sx, fit.sy, fit.sw, fit.sh, x, y, w, h);
+  context.restore();
+
+  if (border > 0) {
+    context.save();
+    // Stroke inside the inset so its outer edge stays where the user placed it.
+    roundedRectPath(context, x + border / 2, y + border / 2, w - border, h - border, Math.max(0, radius - border / 2));
+    context.lineWidth = border;
+    context.strokeStyle = layout.borderColor;
+    context.stroke();
+    context.restore();
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+
+export type ScanFormat = 'qr' | 'ean13' | 'code128';
+
+export const SCAN_FORMATS: Record<ScanFormat, { label: string; zxingFormat: BarcodeFormat }> = {
+  qr: { label: 'QR', zxingFormat: BarcodeFormat.QR_CODE },
+  ean13: { label: 'EAN-13', zxingFormat: BarcodeFormat.EAN_13 },
+  code128: { label: 'Code 128', zxingFormat: BarcodeFormat.CODE_128 },
+};
+export const SCAN_FORMAT_KEYS_ORDERED: ScanFormat[] = ['qr', 'ean13', 'code128'];
+
+export interface ScanResult {
+  value: string;
+  format: ScanFormat;
+  scannedAt: Date;
+}
+
+/**
+ * Returns a decoder for live frames. Decoding runs locally (ZXing), nothing leaves the browser.
+ * The reader is created once because setting up its hints is comparatively expensive.
+ */
+export function createFrameScanner(): (frame: ImageData) => ScanResult | null {
+  const reader = new MultiFormatReader();
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, SCAN_FORMAT_KEYS_ORDERED.map(format => SCAN_FORMATS[format].zxingFormat));
+  reader.setHints(hints);
+
+  return (frame: ImageData) => {
+    const { width, height, data } = frame;
+    const luminance = new Uint8ClampedArray(width * height);
+    for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+      luminance[i] = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) | 0;
+    }
+    try {
+      const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminance, width, height)));
+      const result = reader.decodeWithState(bitmap);
+      const format = SCAN_FORMAT_KEYS_ORDERED.find(key => SCAN_FORMATS[key].zxingFormat === result.getBarcodeFormat());
+      if (!format) return null;
+      return { value: result.getText(), format, scannedAt: new Date() };
+    } catch {
+      // ZXing throws when a frame has no readable code, which is the common case.
+      return null;
+    }
+  };
+}
+
+/** Pixels of a full-size frame or still, shrunk so its longer side is at most `maxDimension`. */
+export function getScanImageData(source: HTMLCanvasElement, maxDimension: number): ImageData {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Could not get canvas context.');
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+export const isOpenableUrl = (value: string) => /^https?:\/\/\S+$/i.test(value.trim());
+
+/** Turns a scanned value into something safe to use at the start of a filename. */
+export const toFilenamePrefix = (value: string) =>
+  value.trim().replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+|_+$/g, '').slice(0, 60) || 'scan';
@@ -0,0 +1,289 @@
+/** 'gif' is only for animated sequence captures; stills and imported images need png, jpeg or webp. */
+export type OutputFormat = 'png' | 'jpeg' | 'webp' | 'gif';
+
+/**
+ * How the camera frame is mapped onto the output canvas when their aspect ratios differ.
+ * - cover: center-crop the frame so it fills the output.
+ * - contain: letterbox the whole frame inside the output, padding with `fillColor`.
+ * - stretch: scale each axis independently (distorts the frame).
+ */
+export type FitMode = 'cover' | 'contain' | 'stretch';
+
+/** Composition guides drawn over the live view only; they never reach the captured pixels. */
+export type OverlayKey = 'thirds' | 'grid' | 'crosshair' | 'safeAreas' | 'avatar' | 'idPhoto';
+
+export interface OverlaySettings {
+  enabled: OverlayKey[];
+  gridColumns: number;
+  gridRows: number;
+}
+
+export type WatermarkKind = 'none' | 'text' | 'logo';
+export type WatermarkPosition = 'top-left' | 'top-right' | 'center' | 'bottom-left' | 'bottom-right';
+
+/**
+ * Stamped onto every exported still. The logo image itself is too large for the URL and is kept
+ * in localStorage (see `watermark.ts`); only its placement travels with the settings.
+ */
+export interface WatermarkSettings {
+  kind: WatermarkKind;
+  text: string;
+  textColor: string;
+  position: WatermarkPosition;
+  /** Distance from the edges, as a percentage of the shorter output side. */
+  marginPercent: number;
+  opacityPercent: number;
+  /** Width of the mark as a percentage of the output width. */
+  scalePercent: number;
+  /** Repeat the mark diagonally across the whole image instead of placing it once. */
+  tiled: boolean;
+}
+
+export type CaptionPosition = 'top' | 'bottom';
+
+/** A burned-in info bar; `template` placeholders are filled in by `formatCaption` in `caption.ts`. */
+export interface CaptionSettings {
+  enabled: boolean;
+  position: CaptionPosition;
+  template: string;
+  note: string;
+}
+
+export interface PixsnapSettings {
+  aspectRatioKey: string;
+  width: number;
+  height: number;
+  format: OutputFormat;
+  targetFileSizeKB: number;
+  fitMode: FitMode;
+  fillColor: string;
+  overlays: OverlaySettings;
+  watermark: WatermarkSettings;
+  caption: CaptionSettings;
+}
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['png', 'jpeg', 'webp', 'gif'];
+
+export const FIT_MODES: Record<FitMode, { label: string; description: string }> = {
+  cover: { label: 'Cover (Crop)', description: 'Center-crops the camera frame to fill the output.' },
+  contain: { label: 'Contain (Letterbox)', description: 'Keeps the whole frame and pads the rest with the fill color.' },
+  stretch: { label: 'Stretch', description: 'Scales the frame to the output size, distorting it if the ratios differ.' },
+};
+export const FIT_MODE_KEYS_ORDERED: FitMode[] = ['cover', 'contain', 'stretch'];
+
+export const DEFAULT_FIT_MODE: FitMode = 'cover';
+export const DEFAULT_FILL_COLOR = '#000000';
+
+export const OVERLAYS: Record<OverlayKey, { label: string }> = {
+  thirds: { label: 'Rule of Thirds' },
+  grid: { label: 'Custom Grid' },
+  crosshair: { label: 'Center Crosshair' },
+  safeAreas: { label: 'Title/Action Safe' },
+  avatar: { label: 'Avatar Circle' },
+  idPhoto: { label: 'ID Photo Template' },
+};
+export const OVERLAY_KEYS_ORDERED: OverlayKey[] = ['thirds', 'grid', 'crosshair', 'safeAreas', 'avatar', 'idPhoto'];
+
+export const MAX_GRID_DIVISIONS = 12;
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  enabled: [],
+  gridColumns: 4,
+  gridRows: 4,
+};
+
+export const WATERMARK_KINDS: Record<WatermarkKind, { label: string }> = {
+  none: { label: 'None' },
+  text: { label: 'Text' },
+  logo: { label: 'Logo (PNG)' },
+};
+export const WATERMARK_KIND_KEYS_ORDERED: WatermarkKind[] = ['none', 'text', 'logo'];
+
+export const WATERMARK_POSITIONS: Record<WatermarkPosition, { label: string }> = {
+  'top-left': { label: 'Top Left' },
+  'top-right': { label: 'Top Right' },
+  center: { label: 'Center' },
+  'bottom-left': { label: 'Bottom Left' },
+  'bottom-right': { label: 'Bottom Right' },
+};
+export const WATERMARK_POSITION_KEYS_ORDERED: WatermarkPosition[] = ['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right'];
+
+export const MAX_WATERMARK_MARGIN_PERCENT = 20;
+export const MIN_WATERMARK_SCALE_PERCENT = 5;
+export const MAX_WATERMARK_SCALE_PERCENT = 100;
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+  kind: 'none',
+  text: '',
+  textColor: '#ffffff',
+  position: 'bottom-right',
+  marginPercent: 3,
+  opacityPercent: 60,
+  scalePercent: 25,
+  tiled: false,
+};
+
+export const CAPTION_POSITIONS: Record<CaptionPosition, { label: string }> = {
+  top: { label: 'Top' },
+  bottom: { label: 'Bottom' },
+};
+export const CAPTION_POSITION_KEYS_ORDERED: CaptionPosition[] = ['top', 'bottom'];
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  enabled: false,
+  position: 'bottom',
+  template: '{date} {time} · {device} · {note}',
+  note: '',
+};
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export function settingsToSearchParams(settings: PixsnapSettings): URLSearchParams {
+  const params = new URLSearchParams();
+  params.append('aspectRatioKey', settings.aspectRatioKey);
+  params.append('width', settings.width.toString());
+  params.append('height', settings.height.toString());
+  params.append('format', settings.format);
+  params.append('targetFileSizeKB', settings.targetFileSizeKB.toString());
+  params.append('fitMode', settings.fitMode);
+  params.append('fillColor', settings.fillColor);
+  if (settings.overlays.enabled.length > 0) {
+    params.append('overlays', settings.overlays.enabled.join(','));
+  }
+  if (settings.overlays.enabled.includes('grid')) {
+    params.append('grid', `${settings.overlays.gridColumns}x${settings.overlays.gridRows}`);
+  }
+  const watermark = settings.watermark;
+  if (watermark.kind !== 'none') {
+    params.append('watermark', watermark.kind);
+    if (watermark.kind === 'text') {
+      params.append('wmText', watermark.text);
+      params.append('wmColor', watermark.textColor);
+    }
+    params.append('wmPosition', watermark.position);
+    params.append('wmMargin', watermark.marginPercent.toString());
+    params.append('wmOpacity', watermark.opacityPercent.toString());
+    params.append('wmScale', watermark.scalePercent.toString());
+    if (watermark.tiled) params.append('wmTiled', '1');
+  }
+  if (settings.caption.enabled) {
+    params.append('caption', settings.caption.position);
+    params.append('captionTemplate', settings.caption.template);
+    if (settings.caption.note) params.append('captionNote', settings.caption.note);
+  }
+  return params;
+}
+
+/**
+ * Reads capture settings from the preview URL.
+ * Returns null when required parameters are missing and throws when present values are invalid.
+ * `fitMode`, `fillColor` and the overlay, watermark and caption parameters are optional so links created before they existed keep working.
+ */
+export function parseSettingsFromSearchParams(searchParams: Pick<URLSearchParams, 'get'>): PixsnapSettings | null {
+  const widthStr = searchParams.get('width');
+  const heightStr = searchParams.get('height');
+  const formatStr = searchParams.get('format');
+  const aspectRatioKeyStr = searchParams.get('aspectRatioKey');
+  const targetFileSizeKBStr = searchParams.get('targetFileSizeKB');
+
+  if (!widthStr || !heightStr || !formatStr || !aspectRatioKeyStr || !targetFileSizeKBStr) {
+    return null;
+  }
+
+  const parsedSettings: PixsnapSettings = {
+    width: parseInt(widthStr, 10),
+    height: parseInt(heightStr, 10),
+    format: formatStr as OutputFormat,
+    aspectRatioKey: aspectRatioKeyStr,
+    targetFileSizeKB: parseInt(targetFileSizeKBStr, 10),
+    fitMode: (searchParams.get('fitMode') ?? DEFAULT_FIT_MODE) as FitMode,
+    fillColor: searchParams.get('fillColor') ?? DEFAULT_FILL_COLOR,
+    overlays: parseOverlaySettings(searchParams.get('overlays'), searchParams.get('grid')),
+    watermark: parseWatermarkSettings(searchParams),
+    caption: parseCaptionSettings(searchParams),
+  };
+
+  if (isNaN(parsedSettings.width) || isNaN(parsedSettings.height) || isNaN(parsedSettings.targetFileSizeKB)) {
+    throw new Error("Invalid number format in URL parameters.");
+  }
+  if (!OUTPUT_FORMATS.includes(parsedSettings.format)) {
+    throw new Error("Invalid format in URL parameters.");
+  }
+  if (!FIT_MODE_KEYS_ORDERED.includes(parsedSettings.fitMode)) {
+    throw new Error("Invalid fit mode in URL parameters.");
+  }
+  if (!HEX_COLOR_PATTERN.test(parsedSettings.fillColor)) {
+    throw new Error("Invalid fill color in URL parameters.");
+  }
+  return parsedSettings;
+}
+
+function parseOverlaySettings(overlaysStr: string | null, gridStr: string | null): OverlaySettings {
+  const enabled = (overlaysStr ? overlaysStr.split(',') : []) as OverlayKey[];
+  if (enabled.some(key => !OVERLAY_KEYS_ORDERED.includes(key))) {
+    throw new Error("Invalid overlay in URL parameters.");
+  }
+  if (!gridStr) {
+    return { ...DEFAULT_OVERLAY_SETTINGS, enabled };
+  }
+  const match = /^(\d+)x(\d+)$/.exec(gridStr);
+  const gridColumns = match ? parseInt(match[1], 10) : NaN;
+  const gridRows = match ? parseInt(match[2], 10) : NaN;
+  if (!(gridColumns >= 1 && gridColumns <= MAX_GRID_DIVISIONS && gridRows >= 1 && gridRows <= MAX_GRID_DIVISIONS)) {
+    throw new Error("Invalid grid size in URL parameters.");
+  }
+  return { enabled, gridColumns, gridRows };
+}
+
+function parseWatermarkSettings(searchParams: Pick<URLSearchParams, 'get'>): WatermarkSettings {
+  const kind = (searchParams.get('watermark') ?? 'none') as WatermarkKind;
+  if (!WATERMARK_KIND_KEYS_ORDERED.includes(kind)) {
+    throw new Error("Invalid watermark in URL parameters.");
+  }
+  if (kind === 'none') {
+    return DEFAULT_WATERMARK_SETTINGS;
+  }
+
+  const readNumber = (name: string, fallback: number, min: number, max: number) => {
+    const raw = searchParams.get(name);
+    const value = raw === null ? fallback : parseInt(raw, 10);
+    if (isNaN(value) || value < min || value > max) {
+      throw new Error("Invalid watermark value in URL parameters.");
+    }
+    return value;
+  };
+
+  const watermark: WatermarkSettings = {
+    kind,
+    text: searchParams.get('wmText') ?? DEFAULT_WATERMARK_SETTINGS.text,
+    textColor: searchParams.get('wmColor') ?? DEFAULT_WATERMARK_SETTINGS.textColor,
+    position: (searchParams.get('wmPosition') ?? DEFAULT_WATERMARK_SETTINGS.position) as WatermarkPosition,
+    marginPercent: readNumber('wmMargin', DEFAULT_WATERMARK_SETTINGS.marginPercent, 0, MAX_WATERMARK_MARGIN_PERCENT),
+    opacityPercent: readNumber('wmOpacity', DEFAULT_WATERMARK_SETTINGS.opacityPercent, 0, 100),
+    scalePercent: readNumber('wmScale', DEFAULT_WATERMARK_SETTINGS.scalePercent, MIN_WATERMARK_SCALE_PERCENT, MAX_WATERMARK_SCALE_PERCENT),
+    tiled: searchParams.get('wmTiled') === '1',
+  };
+  if (!WATERMARK_POSITION_KEYS_ORDERED.includes(watermark.position)) {
+    throw new Error("Invalid watermark position in URL parameters.");
+  }
+  if (!HEX_COLOR_PATTERN.test(watermark.textColor)) {
+    throw new Error("Invalid watermark color in URL parameters.");
+  }
+  return watermark;
+}
+
+function parseCaptionSettings(searchParams: Pick<URLSearchParams, 'get'>): CaptionSettings {
+  const position = searchParams.get('caption') as CaptionPosition | null;
+  if (!position) {
+    return DEFAULT_CAPTION_SETTINGS;
+  }
+  if (!CAPTION_POSITION_KEYS_ORDERED.includes(position)) {
+    throw new Error("Invalid caption position in URL parameters.");
+  }
+  return {
+    enabled: true,
+    position,
+    template: searchParams.get('captionTemplate') ?? DEFAULT_CAPTION_SETTINGS.template,
+    note: searchParams.get('captionNote') ?? '',
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Variance of the Laplacian of the canvas' luminance. Higher values mean more high-frequency
+ * detail, i.e. a sharper frame. Only meaningful when comparing frames of the same scene and size.
+ */
+export function measureSharpness(canvas: HTMLCanvasElement): number {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return 0;
+  const { width, height } = canvas;
+  if (width < 3 || height < 3) return 0;
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    luma[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+}
@@ -0,0 +1,151 @@
+import { loadImageFile } from '@/lib/pixsnap/import';
+
+// ImageCapture (Media Capture Image spec) isn't in lib.dom yet, so declare the parts we use.
+export type FillLightMode = 'auto' | 'off' | 'flash';
+type RedEyeReduction = 'never' | 'always' | 'controllable';
+
+interface MediaSettingsRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+interface PhotoCapabilities {
+  redEyeReduction?: RedEyeReduction;
+  imageHeight?: MediaSettingsRange;
+  imageWidth?: MediaSettingsRange;
+  fillLightMode?: FillLightMode[];
+}
+
+interface PhotoSettings {
+  fillLightMode?: FillLightMode;
+  imageHeight?: number;
+  imageWidth?: number;
+  redEyeReduction?: boolean;
+}
+
+interface ImageCapture {
+  takePhoto(photoSettings?: PhotoSettings): Promise<Blob>;
+  getPhotoCapabilities(): Promise<PhotoCapabilities>;
+}
+
+type ImageCaptureConstructor = new (track: MediaStreamTrack) => ImageCapture;
+
+export type StillCaptureMethod = 'image-capture' | 'video-frame';
+
+export const STILL_CAPTURE_METHODS: Record<StillCaptureMethod, { label: string }> = {
+  'image-capture': { label: 'Full-sensor photo' },
+  'video-frame': { label: 'Video frame' },
+};
+
+export type StillResolution = 'max' | 'output';
+
+export const STILL_RESOLUTIONS: Record<StillResolution, { label: string }> = {
+  max: { label: 'Max Sensor' },
+  output: { label: 'Match Output' },
+};
+export const STILL_RESOLUTION_KEYS_ORDERED: StillResolution[] = ['max', 'output'];
+
+export const FILL_LIGHT_MODES: Record<FillLightMode, { label: string }> = {
+  auto: { label: 'Flash Auto' },
+  off: { label: 'Flash Off' },
+  flash: { label: 'Flash On' },
+};
+
+export interface StillCaptureOptions {
+  resolution: StillResolution;
+  fillLightMode: FillLightMode | null;
+  redEyeReduction: boolean;
+}
+
+export const DEFAULT_STILL_CAPTURE_OPTIONS: StillCaptureOptions = {
+  resolution: 'max',
+  fillLightMode: null,
+  redEyeReduction: false,
+};
+
+/** What the camera offers for stills; null when ImageCapture is unavailable for this track. */
+export interface StillCaptureSupport {
+  maxWidth: number | null;
+  maxHeight: number | null;
+  fillLightModes: FillLightMode[];
+  canToggleRedEye: boolean;
+}
+
+const getImageCaptureConstructor = (): ImageCaptureConstructor | null =>
+  (typeof window !== 'undefined' && (window as unknown as { ImageCapture?: ImageCaptureConstructor }).ImageCapture) || null;
+
+export async function getStillCaptureSupport(track: MediaStreamTrack): Promise<StillCaptureSupport | null> {
+  const ImageCaptureImpl = getImageCaptureConstructor();
+  if (!ImageCaptureImpl || track.readyState !== 'live') return null;
+  try {
+    const capabilities = await new ImageCaptureImpl(track).getPhotoCapabilities();
+    return {
+      maxWidth: capabilities.imageWidth?.max || null,
+      maxHeight: capabilities.imageHeight?.max || null,
+      fillLightModes: capabilities.fillLightMode ?? [],
+      canToggleRedEye: capabilities.redEyeReduction === 'controllable',
+    };
+  } catch (err) {
+    console.warn('ImageCapture photo capabilities unavailable:', err);
+    return null;
+  }
+}
+
+/**
+ * Takes a still through ImageCapture.takePhoto(), which can use the sensor's full photo resolution
+ * rather than the preview stream's. The result keeps EXIF orientation applied.
+ */
+export async function takeStillPhoto(
+  track: MediaStreamTrack,
+  support: StillCaptureSupport,
+  options: StillCaptureOptions,
+  outputSize: { width: number; height: number }
+): Promise<HTMLCanvasElement> {
+  const ImageCaptureImpl = getImageCaptureConstructor();
+  if (!ImageCaptureImpl) throw new Error('ImageCapture is not supported in this browser.');
+
+  const photoSettings: PhotoSettings = {};
+  if (options.resolution === 'max') {
+    if (support.maxWidth) photoSettings.imageWidth = support.maxWidth;
+    if (support.maxHeight) photoSettings.imageHeight = support.maxHeight;
+  } else {
+    // The camera snaps to its nearest supported size.
+    photoSettings.imageWidth = Math.min(outputSize.width, support.maxWidth ?? outputSize.width);
+    photoSettings.imageHeight = Math.min(outputSize.height, support.maxHeight ?? outputSize.height);
+  }
+  if (options.fillLightMode && support.fillLightModes.includes(options.fillLightMode)) {
+    photoSettings.fillLightMode = options.fillLightMode;
+  }
+  if (support.canToggleRedEye) photoSettings.redEyeReduction = options.redEyeReduction;
+
+  const blob = await new ImageCaptureImpl(track).takePhoto(photoSettings);
+  return loadImageFile(blob);
+}
+
+/** Aspect ratios closer than this are treated as the same framing. */
+const FRAMING_TOLERANCE = 0.01;
+
+/**
+ * takePhoto() often returns the whole sensor while the preview stream is cut from its middle, so
+ * the still can show more than the viewfinder did. Crops the still around its center to the
+ * preview's aspect ratio so the framing mask stays accurate. Returns null when the two disagree on
+ * orientation, where that mapping can't be trusted.
+ */
+export function matchPreviewFraming(still: HTMLCanvasElement, previewWidth: number, previewHeight: number): HTMLCanvasElement | null {
+  if (!previewWidth || !previewHeight) return still;
+  const stillRatio = still.width / still.height;
+  const previewRatio = previewWidth / previewHeight;
+  if (Math.abs(stillRatio / previewRatio - 1) <= FRAMING_TOLERANCE) return still;
+  if ((stillRatio > 1) !== (previewRatio > 1) && stillRatio !== 1 && previewRatio !== 1) return null;
+
+  const width = Math.round(stillRatio > previewRatio ? still.height * previewRatio : still.width);
+  const height = Math.round(stillRatio > previewRatio ? still.height : still.width / previewRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context.');
+  context.drawImage(still, (still.width - width) / 2, (still.height - height) / 2, width, height, 0, 0, width, height);
+  return canvas;
+}
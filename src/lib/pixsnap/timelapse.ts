@@ -0,0 +1,60 @@
+import { delay } from '@/lib/pixsnap/frames';
+import { getContainerMimeType, getSupportedVideoFormats } from '@/lib/pixsnap/video';
+
+export function getSupportedWebmMimeType(): string | null {
+  return getSupportedVideoFormats().find(option => option.extension === 'webm')?.mimeType ?? null;
+}
+
+/**
+ * Assembles still images into a WebM by playing them onto a canvas and recording its stream.
+ * MediaRecorder works in real time, so this takes `images.length / fps` seconds.
+ */
+export async function renderTimelapseWebm(
+  images: Blob[],
+  width: number,
+  height: number,
+  fps: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const mimeType = getSupportedWebmMimeType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video.');
+  if (images.length === 0) throw new Error('No frames to export.');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context.');
+
+  // Paint the first frame before recording starts so the video doesn't open on a blank canvas.
+  const first = await createImageBitmap(images[0]);
+  context.drawImage(first, 0, 0, width, height);
+  first.close();
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  const frameDurationMs = 1000 / fps;
+  recorder.start();
+  try {
+    for (let i = 0; i < images.length; i++) {
+      const bitmap = await createImageBitmap(images[i]);
+      context.drawImage(bitmap, 0, 0, width, height);
+      bitmap.close();
+      onProgress?.(i + 1, images.length);
+      await delay(frameDurationMs);
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: getContainerMimeType(mimeType) });
+}
@@ -0,0 +1,95 @@
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Post-capture edits applied to the raw camera frame.
+ * `straighten` is a free rotation in degrees applied on top of the quarter turns; the frame is
+ * auto-cropped to the largest same-shaped rectangle that contains no empty corners.
+ * `crop` is expressed in pixels of that straightened region, or null for the largest centered crop.
+ */
+export interface CaptureEdit {
+  rotation: QuarterTurn;
+  straighten: number;
+  flipH: boolean;
+  flipV: boolean;
+  crop: Rect | null;
+}
+
+export const DEFAULT_CAPTURE_EDIT: CaptureEdit = {
+  rotation: 0,
+  straighten: 0,
+  flipH: false,
+  flipV: false,
+  crop: null,
+};
+
+export const MAX_STRAIGHTEN_DEGREES = 45;
+
+/** Size of the edit area: the source after quarter turns, shrunk so the straighten rotation leaves no empty corners. */
+export function getEditBounds(srcWidth: number, srcHeight: number, edit: Pick<CaptureEdit, 'rotation' | 'straighten'>) {
+  const turned = edit.rotation === 90 || edit.rotation === 270;
+  const w = turned ? srcHeight : srcWidth;
+  const h = turned ? srcWidth : srcHeight;
+  const theta = Math.abs(edit.straighten) * Math.PI / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const scale = Math.min(w / (w * cos + h * sin), h / (w * sin + h * cos));
+  return { width: w * scale, height: h * scale };
+}
+
+/** Largest rectangle of the given aspect ratio centered inside the bounds. */
+export function getCenteredCrop(bounds: { width: number; height: number }, aspectRatio: number): Rect {
+  let width = bounds.width;
+  let height = width / aspectRatio;
+  if (height > bounds.height) {
+    height = bounds.height;
+    width = height * aspectRatio;
+  }
+  return { x: (bounds.width - width) / 2, y: (bounds.height - height) / 2, width, height };
+}
+
+/**
+ * Renders `source` with the edit applied so that `crop` (in edit-bounds pixels) fills the target canvas.
+ * Pass the whole bounds as the crop to render the uncropped edit area, e.g. for an editor preview.
+ */
+export function renderEdit(
+  target: HTMLCanvasElement,
+  source: CanvasImageSource,
+  srcWidth: number,
+  srcHeight: number,
+  edit: CaptureEdit,
+  crop: Rect
+) {
+  const context = target.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context.');
+  const bounds = getEditBounds(srcWidth, srcHeight, edit);
+
+  context.save();
+  context.imageSmoothingQuality = 'high';
+  context.clearRect(0, 0, target.width, target.height);
+  context.scale(target.width / crop.width, target.height / crop.height);
+  context.translate(-crop.x + bounds.width / 2, -crop.y + bounds.height / 2);
+  context.rotate(edit.straighten * Math.PI / 180);
+  context.scale(edit.flipH ? -1 : 1, edit.flipV ? -1 : 1);
+  context.rotate(edit.rotation * Math.PI / 180);
+  context.drawImage(source, -srcWidth / 2, -srcHeight / 2, srcWidth, srcHeight);
+  context.restore();
+}
+
+/** Keeps a crop inside the bounds, shrinking it (around its center, preserving aspect) if it no longer fits. */
+export function clampCrop(crop: Rect, bounds: { width: number; height: number }): Rect {
+  const scale = Math.min(1, bounds.width / crop.width, bounds.height / crop.height);
+  const width = crop.width * scale;
+  const height = crop.height * scale;
+  const centerX = crop.x + crop.width / 2;
+  const centerY = crop.y + crop.height / 2;
+  const x = Math.min(Math.max(0, centerX - width / 2), bounds.width - width);
+  const y = Math.min(Math.max(0, centerY - height / 2), bounds.height - height);
+  return { x, y, width, height };
+}
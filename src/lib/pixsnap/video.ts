@@ -0,0 +1,30 @@
+export interface VideoFormatOption {
+  id: string;
+  label: string;
+  mimeType: string;
+  extension: 'webm' | 'mp4';
+}
+
+/** Recording formats in order of preference; only those the browser's MediaRecorder accepts are offered. */
+const VIDEO_FORMAT_CANDIDATES: VideoFormatOption[] = [
+  { id: 'webm-vp9', label: 'WebM (VP9)', mimeType: 'video/webm;codecs=vp9', extension: 'webm' },
+  { id: 'webm-vp8', label: 'WebM (VP8)', mimeType: 'video/webm;codecs=vp8', extension: 'webm' },
+  { id: 'webm', label: 'WebM', mimeType: 'video/webm', extension: 'webm' },
+  { id: 'mp4-h264', label: 'MP4 (H.264)', mimeType: 'video/mp4;codecs=avc1.42E01E', extension: 'mp4' },
+  { id: 'mp4', label: 'MP4', mimeType: 'video/mp4', extension: 'mp4' },
+];
+
+export function getSupportedVideoFormats(): VideoFormatOption[] {
+  if (typeof MediaRecorder === 'undefined') return [];
+  return VIDEO_FORMAT_CANDIDATES.filter(option => MediaRecorder.isTypeSupported(option.mimeType));
+}
+
+/** Container MIME type without codec parameters, for the final Blob. */
+export const getContainerMimeType = (mimeType: string) => mimeType.split(';')[0];
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
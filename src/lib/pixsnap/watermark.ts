@@ -0,0 +1,125 @@
+import type { WatermarkSettings } from '@/lib/pixsnap/settings';
+import { dataUrlToBlob } from '@/lib/pixsnap/encode';
+import { getDownscaleFactor } from '@/lib/pixsnap/frames';
+import { loadImageFile } from '@/lib/pixsnap/import';
+
+const WATERMARK_LOGO_STORAGE_KEY = 'pixsnap.watermarkLogo';
+/** Logos are shrunk before storing so they fit comfortably in localStorage. */
+const MAX_LOGO_DIMENSION = 1024;
+const TILE_ANGLE = -Math.PI / 6;
+
+/** Decodes an uploaded logo and returns it as a PNG data URL, downscaled if needed. */
+export async function prepareWatermarkLogo(file: Blob): Promise<string> {
+  const source = await loadImageFile(file);
+  const scale = getDownscaleFactor(source.width, source.height, MAX_LOGO_DIMENSION);
+  if (scale === 1) return source.toDataURL('image/png');
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context.');
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+export function loadWatermarkLogoDataUrl(): string | null {
+  try {
+    return window.localStorage.getItem(WATERMARK_LOGO_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/** Returns false when the logo could not be stored, e.g. because storage is full or disabled. */
+export function saveWatermarkLogoDataUrl(dataUrl: string | null): boolean {
+  try {
+    if (dataUrl) {
+      window.localStorage.setItem(WATERMARK_LOGO_STORAGE_KEY, dataUrl);
+    } else {
+      window.localStorage.removeItem(WATERMARK_LOGO_STORAGE_KEY);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The stored logo decoded into a canvas, or null if there is none. */
+export async function loadWatermarkLogo(): Promise<HTMLCanvasElement | null> {
+  const dataUrl = loadWatermarkLogoDataUrl();
+  return dataUrl ? loadImageFile(dataUrlToBlob(dataUrl)) : null;
+}
+
+/** Renders the text or logo at its final size, or returns null if there is nothing to stamp. */
+function renderMark(watermark: WatermarkSettings, logo: HTMLCanvasElement | null, outputWidth: number, outputHeight: number): HTMLCanvasElement | null {
+  const targetWidth = Math.max(1, (outputWidth * watermark.scalePercent) / 100);
+  const mark = document.createElement('canvas');
+  const context = mark.getContext('2d');
+  if (!context) return null;
+
+  if (watermark.kind === 'logo') {
+    if (!logo) return null;
+    mark.width = Math.round(targetWidth);
+    mark.height = Math.max(1, Math.round((targetWidth * logo.height) / logo.width));
+    context.drawImage(logo, 0, 0, mark.width, mark.height);
+    return mark;
+  }
+
+  const text = watermark.text.trim();
+  if (watermark.kind !== 'text' || !text) return null;
+  // Size the font so the text spans the requested width, but never taller than half the image.
+  const font = (size: number) => `600 ${size}px sans-serif`;
+  context.font = font(100);
+  const fontSize = Math.max(8, Math.min((100 * targetWidth) / context.measureText(text).width, outputHeight / 2));
+  context.font = font(fontSize);
+  const shadowBlur = Math.max(1, fontSize / 12);
+  mark.width = Math.ceil(context.measureText(text).width + shadowBlur * 2);
+  mark.height = Math.ceil(fontSize * 1.3 + shadowBlur * 2);
+  // Resizing the canvas resets its state.
+  context.font = font(fontSize);
+  context.textBaseline = 'middle';
+  context.fillStyle = watermark.textColor;
+  context.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  context.shadowBlur = shadowBlur;
+  context.fillText(text, shadowBlur, mark.height / 2);
+  return mark;
+}
+
+/** Stamps the watermark onto the canvas in place. `logo` is only used for logo watermarks. */
+export function drawWatermark(canvas: HTMLCanvasElement, watermark: WatermarkSettings, logo: HTMLCanvasElement | null) {
+  if (watermark.kind === 'none' || watermark.opacityPercent === 0) return;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const { width, height } = canvas;
+  const mark = renderMark(watermark, logo, width, height);
+  if (!mark) return;
+
+  const margin = (Math.min(width, height) * watermark.marginPercent) / 100;
+  context.save();
+  context.globalAlpha = watermark.opacityPercent / 100;
+
+  if (watermark.tiled) {
+    const gap = Math.max(margin, mark.width / 2);
+    const stepX = mark.width + gap;
+    const stepY = mark.height + gap;
+    const reach = Math.hypot(width, height) / 2;
+    context.translate(width / 2, height / 2);
+    context.rotate(TILE_ANGLE);
+    for (let y = -reach, row = 0; y < reach; y += stepY, row++) {
+      // Offset alternate rows so the marks form a brick pattern.
+      const offset = row % 2 === 0 ? 0 : stepX / 2;
+      for (let x = -reach - offset; x < reach; x += stepX) {
+        context.drawImage(mark, x, y);
+      }
+    }
+  } else {
+    const left = watermark.position.endsWith('left');
+    const right = watermark.position.endsWith('right');
+    const x = left ? margin : right ? width - margin - mark.width : (width - mark.width) / 2;
+    const y = watermark.position.startsWith('top') ? margin
+      : watermark.position.startsWith('bottom') ? height - margin - mark.height
+      : (height - mark.height) / 2;
+    context.drawImage(mark, x, y);
+  }
+  context.restore();
+}